@@ -8,7 +8,9 @@ import {
 } from "@solana/spl-token";
 import bs58 from "bs58";
 import { getConnection, getSolBalance } from "../src/solana/client.js";
-import { USDC_DECIMALS } from "../src/config/constants.js";
+import { toAtomicUnits } from "../src/config/constants.js";
+import { NETWORK } from "../src/config/network.js";
+import { USDC_DECIMALS } from "../src/config/tokens.js";
 import { existsSync, readFileSync, writeFileSync } from "fs";
 
 // Load .env.local if it exists
@@ -21,7 +23,7 @@ async function sleep(ms: number) {
 }
 
 async function main() {
-  console.log("Setting up devnet USDC for testing...\n");
+  console.log(`Setting up ${NETWORK.name} USDC for testing...\n`);
 
   const conn = getConnection();
 
@@ -84,7 +86,7 @@ After funding, run this script again.
 
   // Mint USDC to each wallet
   const amountToMint = 100; // 100 USDC each
-  const atomicAmount = BigInt(amountToMint * 10 ** USDC_DECIMALS);
+  const atomicAmount = toAtomicUnits(amountToMint, USDC_DECIMALS);
 
   console.log(`Minting ${amountToMint} USDC to each wallet...\n`);
 
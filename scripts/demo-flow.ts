@@ -18,6 +18,7 @@ import {
 } from "@solana/spl-token";
 import bs58 from "bs58";
 import { getConnection } from "../src/solana/client.js";
+import { explorerTxUrl } from "../src/config/network.js";
 
 // Load .env.local
 if (existsSync(".env.local")) {
@@ -240,7 +241,7 @@ Here are the top 3 recent papers on quantum error correction:
     const decoded = JSON.parse(Buffer.from(paymentResponse, "base64").toString("utf-8"));
     console.log("✓ Payment confirmed!");
     console.log("  TX Signature:", decoded.txSig);
-    console.log(`  Explorer: https://explorer.solana.com/tx/${decoded.txSig}?cluster=devnet`);
+    console.log(`  Explorer: ${explorerTxUrl(decoded.txSig)}`);
   }
 
   const resultData = await paidResponse.json();
@@ -5,12 +5,23 @@
  * to post jobs, claim work, and handle x402 payments.
  */
 
-import { Keypair, Transaction } from "@solana/web3.js";
+import { Keypair, SystemProgram, Transaction } from "@solana/web3.js";
 import bs58 from "bs58";
+import { createHash, createPrivateKey, randomBytes, sign, KeyObject } from "crypto";
 
 // Configuration
 const MARKETPLACE_URL = process.env.MARKETPLACE_URL || "http://localhost:3000";
 const BOT_WALLET_SECRET = process.env.BOT_WALLET_SECRET_KEY;
+// Overrides the public RPC endpoint for the payment's network
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL;
+
+// Public RPC endpoint for each x402 network id the marketplace can advertise
+const RPC_URLS: Record<string, string> = {
+  "solana-devnet": "https://api.devnet.solana.com",
+  "solana-testnet": "https://api.testnet.solana.com",
+  "solana": "https://api.mainnet-beta.solana.com",
+  "solana-localnet": "http://127.0.0.1:8899",
+};
 
 interface MarketplaceConfig {
   url: string;
@@ -21,24 +32,48 @@ interface Job {
   id: string;
   title: string;
   description: string;
-  bountyUsdc: number;
+  bountyAmount: number;
+  bountyMint: string;
+  bountySymbol: string;
   status: string;
   requesterWallet: string;
   workerWallet: string | null;
 }
 
+// Token details advertised in accepts[].extra.token
+interface PaymentTokenInfo {
+  symbol: string;
+  decimals: number;
+  tokenProgram: string; // The System Program for native SOL
+}
+
+// Worker/platform split advertised in accepts[].extra.breakdown
+interface PaymentBreakdown {
+  total: string;
+  worker: { address: string; amount: string };
+  platform: { address: string; amount: string; percent: number };
+}
+
+// x402 v1 Payment Required body
 interface PaymentRequired {
+  x402Version: number;
+  error: string;
   accepts: Array<{
     scheme: string;
     network: string;
     maxAmountRequired: string;
+    resource: string;
+    description: string;
     asset: string;
     payTo: string;
+    maxTimeoutSeconds: number;
+    extra: Record<string, unknown> | null;
   }>;
 }
 
 class MarketplaceClient {
   private config: MarketplaceConfig;
+  private sessionToken: string | null = null;
 
   constructor() {
     this.config = {
@@ -56,25 +91,143 @@ class MarketplaceClient {
     return this.config.wallet?.publicKey.toBase58() || null;
   }
 
+  // ed25519 private key for the bot wallet
+  private privateKey(): KeyObject {
+    if (!this.config.wallet) {
+      throw new Error("Wallet not configured");
+    }
+
+    const secretKey = this.config.wallet.secretKey;
+    return createPrivateKey({
+      key: {
+        kty: "OKP",
+        crv: "Ed25519",
+        d: Buffer.from(secretKey.slice(0, 32)).toString("base64url"),
+        x: Buffer.from(secretKey.slice(32)).toString("base64url"),
+      },
+      format: "jwk",
+    });
+  }
+
+  // Build wallet signature headers for an authenticated request
+  private signRequest(method: string, path: string, body: string): Record<string, string> {
+    if (!this.config.wallet) {
+      throw new Error("Wallet not configured");
+    }
+
+    const wallet = this.config.wallet.publicKey.toBase58();
+    const timestamp = Date.now();
+    const nonce = randomBytes(16).toString("hex");
+    const bodyHash = createHash("sha256").update(body).digest("hex");
+
+    // Must match buildSignedMessage() on the server
+    const message = [
+      "AgentWork signed request",
+      `method: ${method.toUpperCase()}`,
+      `path: ${path}`,
+      `wallet: ${wallet}`,
+      `timestamp: ${timestamp}`,
+      `nonce: ${nonce}`,
+      `body: ${bodyHash}`,
+    ].join("\n");
+
+    const signature = sign(null, Buffer.from(message, "utf-8"), this.privateKey());
+
+    return {
+      "X-Wallet-Address": wallet,
+      "X-Wallet-Signature": bs58.encode(signature),
+      "X-Wallet-Timestamp": timestamp.toString(),
+      "X-Wallet-Nonce": nonce,
+    };
+  }
+
+  // Use the session token when logged in, otherwise sign the request
+  private authHeaders(method: string, path: string, body: string): Record<string, string> {
+    if (this.sessionToken) {
+      return { Authorization: `Bearer ${this.sessionToken}` };
+    }
+    return this.signRequest(method, path, body);
+  }
+
+  // POST a JSON body authenticated as the bot wallet
+  private async signedPost(path: string, payload: object): Promise<Response> {
+    const body = JSON.stringify(payload);
+    return fetch(`${this.config.url}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.authHeaders("POST", path, body),
+      },
+      body,
+    });
+  }
+
+  // GET authenticated as the bot wallet
+  private async signedGet(path: string, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${this.config.url}${path}`, {
+      headers: {
+        ...headers,
+        ...this.authHeaders("GET", path, ""),
+      },
+    });
+  }
+
+  // POST /api/v1/auth/challenge + /verify - Open a session so requests need no per-call signature
+  async login(): Promise<string> {
+    if (!this.config.wallet) {
+      throw new Error("Wallet not configured");
+    }
+
+    const challengeRes = await fetch(`${this.config.url}/api/v1/auth/challenge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ wallet: this.walletAddress }),
+    });
+    const challengeData = await challengeRes.json();
+    if (!challengeRes.ok) {
+      throw new Error(challengeData.error || "Failed to get challenge");
+    }
+
+    const { nonce, message } = challengeData.challenge;
+    const signature = sign(null, Buffer.from(message, "utf-8"), this.privateKey());
+
+    const verifyRes = await fetch(`${this.config.url}/api/v1/auth/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        wallet: this.walletAddress,
+        nonce,
+        signature: bs58.encode(signature),
+      }),
+    });
+    const verifyData = await verifyRes.json();
+    if (!verifyRes.ok) {
+      throw new Error(verifyData.error || "Failed to verify challenge");
+    }
+
+    this.sessionToken = verifyData.token;
+    return verifyData.token;
+  }
+
   // POST /api/v1/jobs - Create a new job
   async postJob(
     title: string,
     description: string,
-    bountyUsdc: number
+    bountyAmount: number,
+    settlementMode: "escrow" | "x402" = "escrow",
+    bountyMint?: string // Defaults to the marketplace's default payment mint
   ): Promise<Job> {
     if (!this.config.wallet) {
       throw new Error("Wallet not configured");
     }
 
-    const response = await fetch(`${this.config.url}/api/v1/jobs`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        title,
-        description,
-        bountyUsdc,
-        requesterWallet: this.walletAddress,
-      }),
+    const response = await this.signedPost("/api/v1/jobs", {
+      title,
+      description,
+      bountyAmount,
+      requesterWallet: this.walletAddress,
+      settlementMode,
+      ...(bountyMint ? { bountyMint } : {}),
     });
 
     const data = await response.json();
@@ -119,12 +272,8 @@ class MarketplaceClient {
       throw new Error("Wallet not configured");
     }
 
-    const response = await fetch(`${this.config.url}/api/v1/jobs/${jobId}/claim`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        workerWallet: this.walletAddress,
-      }),
+    const response = await this.signedPost(`/api/v1/jobs/${jobId}/claim`, {
+      workerWallet: this.walletAddress,
     });
 
     const data = await response.json();
@@ -141,17 +290,10 @@ class MarketplaceClient {
       throw new Error("Wallet not configured");
     }
 
-    const response = await fetch(
-      `${this.config.url}/api/v1/jobs/${jobId}/complete`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          result,
-          workerWallet: this.walletAddress,
-        }),
-      }
-    );
+    const response = await this.signedPost(`/api/v1/jobs/${jobId}/complete`, {
+      result,
+      workerWallet: this.walletAddress,
+    });
 
     const data = await response.json();
     if (!response.ok) {
@@ -161,6 +303,42 @@ class MarketplaceClient {
     return data.job;
   }
 
+  // POST /api/v1/jobs/:id/approve - Accept a result and release escrow to the worker
+  async approveJob(jobId: string): Promise<{ job: Job; txSig?: string }> {
+    const response = await this.signedPost(`/api/v1/jobs/${jobId}/approve`, {});
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to approve job");
+    }
+
+    return { job: data.job, txSig: data.payment?.txSig };
+  }
+
+  // POST /api/v1/jobs/:id/reject - Reject a result and refund escrow
+  async rejectJob(jobId: string, reason: string): Promise<Job> {
+    const response = await this.signedPost(`/api/v1/jobs/${jobId}/reject`, { reason });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to reject job");
+    }
+
+    return data.job;
+  }
+
+  // POST /api/v1/jobs/:id/dispute - Contest a review decision (requester or worker)
+  async disputeJob(jobId: string, evidence: string): Promise<{ disputeId: string; status: string }> {
+    const response = await this.signedPost(`/api/v1/jobs/${jobId}/dispute`, { evidence });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to open dispute");
+    }
+
+    return { disputeId: data.dispute.id, status: data.job.status };
+  }
+
   // GET /api/v1/results/:jobId - Fetch result with x402 payment
   async fetchResult(jobId: string): Promise<{ result: string; txSig?: string }> {
     if (!this.config.wallet) {
@@ -168,27 +346,21 @@ class MarketplaceClient {
     }
 
     // First request - expect 402
-    let response = await fetch(`${this.config.url}/api/v1/results/${jobId}`);
+    let response = await this.signedGet(`/api/v1/results/${jobId}`);
 
     if (response.status === 402) {
       // Parse payment requirements
-      const paymentHeader = response.headers.get("X-Payment-Required");
-      if (!paymentHeader) {
-        throw new Error("Missing X-Payment-Required header");
+      const paymentReq: PaymentRequired = await response.json();
+      if (paymentReq.x402Version !== 1 || !Array.isArray(paymentReq.accepts)) {
+        throw new Error("Unsupported x402 payment requirements");
       }
 
-      const paymentReq: PaymentRequired = JSON.parse(
-        Buffer.from(paymentHeader, "base64").toString("utf-8")
-      );
-
       // Build and sign payment transaction
       const paymentData = await this.buildPayment(paymentReq);
 
       // Retry with payment
-      response = await fetch(`${this.config.url}/api/v1/results/${jobId}`, {
-        headers: {
-          "X-Payment": paymentData,
-        },
+      response = await this.signedGet(`/api/v1/results/${jobId}`, {
+        "X-PAYMENT": paymentData,
       });
     }
 
@@ -204,7 +376,8 @@ class MarketplaceClient {
     };
   }
 
-  // Build x402 payment
+  // Build x402 payment: one transfer per leg (the worker's share and, when the
+  // requirements carry a breakdown, the platform fee), signed by the bot
   private async buildPayment(paymentReq: PaymentRequired): Promise<string> {
     if (!this.config.wallet) {
       throw new Error("Wallet not configured");
@@ -215,49 +388,78 @@ class MarketplaceClient {
       throw new Error("Unsupported payment scheme");
     }
 
-    // Import transfer instruction builder
-    const { createTransferInstruction } = await import("@solana/spl-token");
-    const { getAssociatedTokenAddress } = await import("@solana/spl-token");
-    const { Connection, PublicKey, Transaction } = await import("@solana/web3.js");
+    const {
+      createAssociatedTokenAccountIdempotentInstruction,
+      createTransferCheckedInstruction,
+      getAssociatedTokenAddress,
+    } = await import("@solana/spl-token");
+    const { Connection, PublicKey } = await import("@solana/web3.js");
 
     // Connect to Solana
-    const rpcUrl = accept.network.includes("devnet")
-      ? "https://api.devnet.solana.com"
-      : "https://api.mainnet-beta.solana.com";
+    const rpcUrl = SOLANA_RPC_URL || RPC_URLS[accept.network];
+    if (!rpcUrl) {
+      throw new Error(`Unsupported payment network ${accept.network} - set SOLANA_RPC_URL`);
+    }
     const conn = new Connection(rpcUrl, "confirmed");
 
+    const breakdown = accept.extra?.breakdown as PaymentBreakdown | undefined;
+    const legs = breakdown
+      ? [
+          { recipient: breakdown.worker.address, amount: BigInt(breakdown.worker.amount) },
+          { recipient: breakdown.platform.address, amount: BigInt(breakdown.platform.amount) },
+        ]
+      : [{ recipient: accept.payTo, amount: BigInt(accept.maxAmountRequired) }];
+
+    const total = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+    if (total > BigInt(accept.maxAmountRequired)) {
+      throw new Error("Payment breakdown exceeds the required amount");
+    }
+
+    const token = accept.extra?.token as PaymentTokenInfo | undefined;
+    if (!token) {
+      throw new Error("Payment requirements do not describe the token");
+    }
+
+    // The asset may be an SPL Token or a Token-2022 mint, or native SOL
+    const payer = this.config.wallet.publicKey;
     const mint = new PublicKey(accept.asset);
-    const recipient = new PublicKey(accept.payTo);
-    const amount = BigInt(accept.maxAmountRequired);
-
-    // Get ATAs
-    const senderAta = await getAssociatedTokenAddress(
-      mint,
-      this.config.wallet.publicKey
-    );
-    const recipientAta = await getAssociatedTokenAddress(mint, recipient);
-
-    // Build transfer instruction
-    const transferIx = createTransferInstruction(
-      senderAta,
-      recipientAta,
-      this.config.wallet.publicKey,
-      amount
-    );
-
-    // Build transaction
-    const tx = new Transaction().add(transferIx);
+    const programId = new PublicKey(token.tokenProgram);
+    const native = programId.equals(SystemProgram.programId);
+    const payerAta = native ? payer : await getAssociatedTokenAddress(mint, payer, false, programId);
+
+    const tx = new Transaction();
+    for (const leg of legs) {
+      if (leg.amount <= 0n) continue;
+
+      const recipient = new PublicKey(leg.recipient);
+      if (native) {
+        tx.add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: leg.amount }));
+        continue;
+      }
+
+      const recipientAta = await getAssociatedTokenAddress(mint, recipient, false, programId);
+      tx.add(
+        createAssociatedTokenAccountIdempotentInstruction(payer, recipientAta, recipient, mint, programId),
+        createTransferCheckedInstruction(payerAta, mint, recipientAta, payer, leg.amount, token.decimals, [], programId)
+      );
+    }
+
     const { blockhash } = await conn.getLatestBlockhash();
     tx.recentBlockhash = blockhash;
-    tx.feePayer = this.config.wallet.publicKey;
+    tx.feePayer = payer;
 
     // Sign transaction
     tx.sign(this.config.wallet);
 
-    // Serialize and encode
+    // Serialize and wrap in the x402 v1 envelope
     const serialized = tx.serialize();
     const paymentData = {
-      serializedTransaction: serialized.toString("base64"),
+      x402Version: 1,
+      scheme: "exact",
+      network: accept.network,
+      payload: {
+        transaction: serialized.toString("base64"),
+      },
     };
 
     return Buffer.from(JSON.stringify(paymentData)).toString("base64");
@@ -275,21 +477,39 @@ export async function executeMarketplaceCommand(input: string): Promise<string>
   try {
     switch (command) {
       case "post": {
-        // Format: post <bounty> <title> - <description>
+        // Format: post <bounty> [--x402] [--mint <mint>] <title> - <description>
         const bounty = parseFloat(parts[1]);
         if (isNaN(bounty)) {
           return "Error: Invalid bounty amount";
         }
-        const rest = parts.slice(2).join(" ");
+        let next = 2;
+        let payOnDelivery = false;
+        let mint: string | undefined;
+        while (parts[next] === "--x402" || parts[next] === "--mint") {
+          if (parts[next] === "--x402") {
+            payOnDelivery = true;
+            next += 1;
+          } else {
+            mint = parts[next + 1];
+            next += 2;
+          }
+        }
+        const rest = parts.slice(next).join(" ");
         const [title, ...descParts] = rest.split(" - ");
         const description = descParts.join(" - ");
 
         if (!title || !description) {
-          return "Error: Format: post <bounty> <title> - <description>";
+          return "Error: Format: post <bounty> [--x402] [--mint <mint>] <title> - <description>";
         }
 
-        const job = await client.postJob(title.trim(), description.trim(), bounty);
-        return `Job posted!\nID: ${job.id}\nTitle: ${job.title}\nBounty: ${job.bountyUsdc} USDC`;
+        const job = await client.postJob(
+          title.trim(),
+          description.trim(),
+          bounty,
+          payOnDelivery ? "x402" : "escrow",
+          mint
+        );
+        return `Job posted!\nID: ${job.id}\nTitle: ${job.title}\nBounty: ${job.bountyAmount} ${job.bountySymbol}`;
       }
 
       case "list": {
@@ -303,7 +523,7 @@ export async function executeMarketplaceCommand(input: string): Promise<string>
         return jobs
           .map(
             (j) =>
-              `[${j.id}] ${j.title} - ${j.bountyUsdc} USDC (${j.status})`
+              `[${j.id}] ${j.title} - ${j.bountyAmount} ${j.bountySymbol} (${j.status})`
           )
           .join("\n");
       }
@@ -315,7 +535,7 @@ export async function executeMarketplaceCommand(input: string): Promise<string>
         }
 
         const job = await client.claimJob(jobId);
-        return `Job claimed!\nID: ${job.id}\nTitle: ${job.title}\nBounty: ${job.bountyUsdc} USDC`;
+        return `Job claimed!\nID: ${job.id}\nTitle: ${job.title}\nBounty: ${job.bountyAmount} ${job.bountySymbol}`;
       }
 
       case "complete": {
@@ -329,7 +549,7 @@ export async function executeMarketplaceCommand(input: string): Promise<string>
         }
 
         const job = await client.completeJob(jobId, result.trim());
-        return `Job completed!\nID: ${job.id}\nResult submitted. Awaiting payment.`;
+        return `Job completed!\nID: ${job.id}\nResult submitted. Awaiting requester review.`;
       }
 
       case "fetch": {
@@ -342,6 +562,44 @@ export async function executeMarketplaceCommand(input: string): Promise<string>
         return `Result fetched!\n${txSig ? `Payment TX: ${txSig}\n` : ""}Result:\n${result}`;
       }
 
+      case "approve": {
+        const jobId = parts[1];
+        if (!jobId) {
+          return "Error: Specify job ID";
+        }
+
+        const { job, txSig } = await client.approveJob(jobId);
+        return `Result approved!\nID: ${job.id}\n${txSig ? `Payment TX: ${txSig}` : "Escrow released to worker."}`;
+      }
+
+      case "reject": {
+        // Format: reject <job_id> - <reason>
+        const jobId = parts[1];
+        const rest = parts.slice(2).join(" ");
+        const reason = rest.startsWith("- ") ? rest.slice(2) : rest;
+
+        if (!jobId || !reason) {
+          return "Error: Format: reject <job_id> - <reason>";
+        }
+
+        const job = await client.rejectJob(jobId, reason.trim());
+        return `Result rejected.\nID: ${job.id}\nEscrow will be refunded unless the worker disputes.`;
+      }
+
+      case "dispute": {
+        // Format: dispute <job_id> - <evidence>
+        const jobId = parts[1];
+        const rest = parts.slice(2).join(" ");
+        const evidence = rest.startsWith("- ") ? rest.slice(2) : rest;
+
+        if (!jobId || !evidence) {
+          return "Error: Format: dispute <job_id> - <evidence>";
+        }
+
+        const { disputeId, status } = await client.disputeJob(jobId, evidence.trim());
+        return `Dispute submitted.\nDispute: ${disputeId}\nJob status: ${status}\nEscrow is frozen until an admin resolves it.`;
+      }
+
       case "status": {
         const jobId = parts[1];
         if (!jobId) {
@@ -349,11 +607,11 @@ export async function executeMarketplaceCommand(input: string): Promise<string>
         }
 
         const job = await client.getJob(jobId);
-        return `Job: ${job.id}\nTitle: ${job.title}\nStatus: ${job.status}\nBounty: ${job.bountyUsdc} USDC\nRequester: ${job.requesterWallet}\nWorker: ${job.workerWallet || "None"}`;
+        return `Job: ${job.id}\nTitle: ${job.title}\nStatus: ${job.status}\nBounty: ${job.bountyAmount} ${job.bountySymbol}\nRequester: ${job.requesterWallet}\nWorker: ${job.workerWallet || "None"}`;
       }
 
       default:
-        return `Unknown command: ${command}\nAvailable: post, list, claim, complete, fetch, status`;
+        return `Unknown command: ${command}\nAvailable: post, list, claim, complete, fetch, approve, reject, dispute, status`;
     }
   } catch (error) {
     return `Error: ${error instanceof Error ? error.message : "Unknown error"}`;
@@ -1,31 +1,38 @@
-import { PublicKey } from "@solana/web3.js";
-
-// Solana Network
-export const SOLANA_DEVNET_RPC = process.env.SOLANA_RPC_URL || "https://api.devnet.solana.com";
-export const SOLANA_NETWORK = process.env.SOLANA_NETWORK || "devnet";
-
-// USDC on Devnet (test token)
-export const USDC_MINT_DEVNET = new PublicKey(
-  process.env.USDC_MINT || "E1eN2zLLZbLmmt4pKHq83SAU9EmcftwojMjuFS5fyj5A"
-);
-
-// USDC has 6 decimals
-export const USDC_DECIMALS = 6;
+// Token amount to atomic units. Amounts arrive as JSON numbers, so digits
+// past the ninth decimal place carry no meaning and are rounded away.
+export function toAtomicUnits(amount: number, decimals: number): bigint {
+  const exact = Math.min(decimals, 9);
+  return BigInt(Math.round(amount * 10 ** exact)) * 10n ** BigInt(decimals - exact);
+}
 
-// Helper to convert USDC amount to atomic units
-export function usdcToAtomic(amount: number): bigint {
-  return BigInt(Math.round(amount * 10 ** USDC_DECIMALS));
+// Atomic units to a token amount (for display; keep bigint for arithmetic)
+export function fromAtomicUnits(atomic: bigint, decimals: number): number {
+  return Number(atomic) / 10 ** decimals;
 }
 
-// Helper to convert atomic units to USDC
-export function atomicToUsdc(atomic: bigint): number {
-  return Number(atomic) / 10 ** USDC_DECIMALS;
+// Atomic units to an exact decimal string (no floating point, no exponent)
+export function formatAtomicUnits(atomic: bigint, decimals: number): string {
+  const base = 10n ** BigInt(decimals);
+  const whole = atomic / base;
+  const fraction = (atomic % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
 }
 
+// Solana RPC failover; endpoints come from the network profile
+export const RPC_TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || "15000", 10);
+// Tries per request across endpoints, including the first
+export const RPC_MAX_ATTEMPTS = parseInt(process.env.RPC_MAX_ATTEMPTS || "4", 10);
+export const RPC_BACKOFF_BASE_MS = parseInt(process.env.RPC_BACKOFF_BASE_MS || "250", 10);
+export const RPC_BACKOFF_MAX_MS = 10_000;
+export const RPC_HEALTH_CHECK_INTERVAL_MS = parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_SECONDS || "30", 10) * 1000;
+
 // Server config
 export const PORT = parseInt(process.env.PORT || "3000", 10);
 export const HOST = process.env.HOST || "0.0.0.0";
 
+// Wallet session tokens
+export const SESSION_TTL_MINUTES = parseInt(process.env.SESSION_TTL_MINUTES || "60", 10);
+
 // Platform fee config
 export const PLATFORM_FEE_PERCENT = parseFloat(process.env.PLATFORM_FEE_PERCENT || "5"); // 5% default
 export const PLATFORM_WALLET = process.env.PLATFORM_WALLET || ""; // Your wallet to receive fees
@@ -38,20 +45,61 @@ export function calculateFees(totalAtomic: bigint): { workerAmount: bigint; plat
   return { workerAmount, platformFee };
 }
 
+// x402 protocol
+export const X402_VERSION = 1;
+export const X402_MAX_TIMEOUT_SECONDS = 60;
+// Also accept the pre-v1 {serializedTransaction} X-Payment payload and send X-Payment-Required
+export const X402_LEGACY_COMPAT = process.env.X402_LEGACY_COMPAT === "true";
+// External facilitator base URL (POST {url}/verify and {url}/settle); empty uses the built-in one
+export const X402_FACILITATOR_URL = (process.env.X402_FACILITATOR_URL || "").replace(/\/+$/, "");
+// Serve the result once a payment verifies and settle it in the background
+export const X402_ASYNC_SETTLEMENT = process.env.X402_ASYNC_SETTLEMENT === "true";
+// Serve the built-in facilitator at /api/v1/facilitator for other x402 servers.
+// Its /settle submits transactions through our RPC for anyone, so it is off by default
+export const X402_EXPOSE_FACILITATOR = process.env.X402_EXPOSE_FACILITATOR === "true";
+
 // Job status (with escrow flow)
 export enum JobStatus {
   PENDING_DEPOSIT = "pending_deposit", // Awaiting escrow deposit
   OPEN = "open",                       // Escrow verified, available for workers
   CLAIMED = "claimed",                 // Worker claimed the job
-  COMPLETED = "completed",             // Worker submitted result
+  COMPLETED = "completed",             // Worker submitted result (legacy, pre-review)
+  UNDER_REVIEW = "under_review",       // Result submitted, awaiting requester approval
+  REJECTED = "rejected",               // Requester rejected result, refunded after dispute window
+  DISPUTED = "disputed",               // Under arbitration, escrow frozen
   PAID = "paid",                       // Escrow released to worker
+  SETTLED = "settled",                 // Dispute resolved with a split payout
   CANCELLED = "cancelled",             // Cancelled, escrow refunded
   EXPIRED = "expired",                 // Expired, escrow refunded
 }
 
+// How a job's bounty reaches the worker. Fixed at creation; a job is paid
+// through exactly one of these paths.
+export enum SettlementMode {
+  ESCROW = "escrow", // Deposited up front, released to the worker on approval
+  X402 = "x402",     // Pay on delivery: the requester pays the x402 paywall to read the result
+}
+
 // Escrow configuration
 export const ESCROW_WALLET = process.env.ESCROW_WALLET || process.env.PLATFORM_WALLET || "";
+// Lamports the escrow wallet keeps on top of escrowed SOL to pay network fees
+// and token account rent; settlements that would dig into it are refused
+export const ESCROW_SOL_RESERVE_LAMPORTS = BigInt(process.env.ESCROW_SOL_RESERVE_LAMPORTS || "10000000");
 export const JOB_EXPIRY_HOURS = parseInt(process.env.JOB_EXPIRY_HOURS || "24", 10);
+export const MAX_JOB_EXPIRY_HOURS = 30 * 24; // Requesters can pick up to 30 days
+// Minutes a worker has to complete a claimed job before it returns to the open pool
+export const CLAIM_TIMEOUT_MINUTES = parseInt(process.env.CLAIM_TIMEOUT_MINUTES || "240", 10);
+export const MAX_CLAIM_TIMEOUT_MINUTES = 7 * 24 * 60;
+// Hours a requester has to approve or reject a result before it is auto-approved
+export const REVIEW_WINDOW_HOURS = parseInt(process.env.REVIEW_WINDOW_HOURS || "72", 10);
+// Hours after a rejection during which the worker can open a dispute
+export const DISPUTE_WINDOW_HOURS = parseInt(process.env.DISPUTE_WINDOW_HOURS || "48", 10);
+export const EXPIRY_SWEEP_INTERVAL_MS = parseInt(process.env.EXPIRY_SWEEP_INTERVAL_SECONDS || "60", 10) * 1000;
+// How often the escrow account is polled for deposits carrying a job reference
+export const DEPOSIT_WATCH_INTERVAL_MS = parseInt(process.env.DEPOSIT_WATCH_INTERVAL_SECONDS || "15", 10) * 1000;
+// Escrow ledger vs on-chain balance check
+export const RECONCILIATION_INTERVAL_MS = parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || "60", 10) * 60 * 1000;
+export const RECONCILIATION_SIGNATURE_LIMIT = parseInt(process.env.RECONCILIATION_SIGNATURE_LIMIT || "200", 10);
 
 // WebSocket event types
 export enum WsEventType {
@@ -59,4 +107,10 @@ export enum WsEventType {
   JOB_CLAIMED = "job.claimed",
   JOB_COMPLETED = "job.completed",
   JOB_PAID = "job.paid",
+  JOB_EXPIRED = "job.expired",
+  JOB_UNCLAIMED = "job.unclaimed",
+  JOB_REJECTED = "job.rejected",
+  DISPUTE_OPENED = "dispute.opened",
+  DISPUTE_RESPONDED = "dispute.responded",
+  DISPUTE_RESOLVED = "dispute.resolved",
 }
@@ -0,0 +1,87 @@
+// Solana cluster the marketplace runs against
+export type NetworkName = "devnet" | "testnet" | "mainnet-beta" | "localnet";
+
+// Everything that differs between clusters
+export interface NetworkProfile {
+  name: NetworkName;
+  rpcUrl: string;
+  rpcUrls: string[];            // rpcUrl first, then fallbacks in order of preference
+  usdcMint: string | null;      // USDC on this cluster; testnet and localnet have none unless USDC_MINT is set
+  x402Network: string;          // Network id in x402 payment requirements
+  explorerTxTemplate: string;   // Transaction explorer URL; {signature} is replaced
+  airdrop: boolean;             // Whether the cluster hands out SOL airdrops
+}
+
+const DEFAULT_RPC_URLS: Record<NetworkName, string> = {
+  devnet: "https://api.devnet.solana.com",
+  testnet: "https://api.testnet.solana.com",
+  "mainnet-beta": "https://api.mainnet-beta.solana.com",
+  localnet: "http://127.0.0.1:8899", // solana-test-validator
+};
+
+const DEFAULT_USDC_MINTS: Record<NetworkName, string | null> = {
+  devnet: "E1eN2zLLZbLmmt4pKHq83SAU9EmcftwojMjuFS5fyj5A", // Test token
+  testnet: null,
+  "mainnet-beta": "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  localnet: null, // Create one with `npm run airdrop-usdc` and set USDC_MINT
+};
+
+// x402 v1 network ids; mainnet is plain "solana"
+const X402_NETWORKS: Record<NetworkName, string> = {
+  devnet: "solana-devnet",
+  testnet: "solana-testnet",
+  "mainnet-beta": "solana",
+  localnet: "solana-localnet",
+};
+
+// Older spellings accepted in SOLANA_NETWORK
+const ALIASES: Record<string, NetworkName> = {
+  mainnet: "mainnet-beta",
+  localhost: "localnet",
+};
+
+function isNetworkName(name: string): name is NetworkName {
+  return name in DEFAULT_RPC_URLS;
+}
+
+/**
+ * Profile for a cluster, with optional RPC and USDC mint overrides. Localnet
+ * explorer links point the public explorer at the local validator's RPC.
+ */
+export function getNetworkProfile(
+  network: string,
+  overrides: { rpcUrl?: string; fallbackRpcUrls?: string[]; usdcMint?: string } = {}
+): NetworkProfile {
+  const name = ALIASES[network] ?? network;
+  if (!isNetworkName(name)) {
+    throw new Error(`Unknown SOLANA_NETWORK "${network}" - use devnet, testnet, mainnet-beta or localnet`);
+  }
+
+  const rpcUrl = overrides.rpcUrl || DEFAULT_RPC_URLS[name];
+  const cluster = name === "localnet"
+    ? `?cluster=custom&customUrl=${encodeURIComponent(rpcUrl)}`
+    : name === "mainnet-beta" ? "" : `?cluster=${name}`;
+
+  return {
+    name,
+    rpcUrl,
+    rpcUrls: [...new Set([rpcUrl, ...(overrides.fallbackRpcUrls ?? [])])],
+    usdcMint: overrides.usdcMint || DEFAULT_USDC_MINTS[name],
+    x402Network: X402_NETWORKS[name],
+    explorerTxTemplate: `https://explorer.solana.com/tx/{signature}${cluster}`,
+    airdrop: name !== "mainnet-beta",
+  };
+}
+
+export const NETWORK = getNetworkProfile(process.env.SOLANA_NETWORK || "devnet", {
+  rpcUrl: process.env.SOLANA_RPC_URL,
+  fallbackRpcUrls: (process.env.SOLANA_RPC_FALLBACK_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean),
+  usdcMint: process.env.USDC_MINT,
+});
+
+export function explorerTxUrl(signature: string): string {
+  return NETWORK.explorerTxTemplate.replace("{signature}", signature);
+}
@@ -0,0 +1,128 @@
+import { PublicKey, SystemProgram } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, NATIVE_MINT } from "@solana/spl-token";
+import { NETWORK } from "./network.js";
+
+// A mint bounties can be paid in
+export interface PaymentToken {
+  symbol: string;
+  mint: PublicKey;
+  decimals: number;
+  programId: PublicKey; // SPL Token, Token-2022, or the System Program for native SOL
+}
+
+export const USDC_DECIMALS = 6;
+
+// USDC on the configured network, if it has one; also how jobs created
+// before bounty mints existed are settled
+export const USDC_TOKEN: PaymentToken | null = NETWORK.usdcMint
+  ? {
+      symbol: "USDC",
+      mint: new PublicKey(NETWORK.usdcMint),
+      decimals: USDC_DECIMALS,
+      programId: TOKEN_PROGRAM_ID,
+    }
+  : null;
+
+/**
+ * Native SOL, paid with System Program transfers in lamports. It is
+ * identified by the native mint address wherever a mint is stored, but no
+ * token accounts are involved.
+ */
+export const NATIVE_SOL_TOKEN: PaymentToken = {
+  symbol: "SOL",
+  mint: NATIVE_MINT,
+  decimals: 9,
+  programId: SystemProgram.programId,
+};
+
+export function isNativeSol(token: PaymentToken): boolean {
+  return token.programId.equals(SystemProgram.programId);
+}
+
+/**
+ * Parse PAYMENT_MINTS: comma-separated SYMBOL:mint:decimals[:token-2022]
+ * entries, or SOL:native for native SOL, e.g.
+ * "USDC:E1eN...:6,PYUSD:CXk2...:6:token-2022,SOL:native". Mints with the
+ * Token-2022 transfer fee extension are not supported: the recipient would
+ * receive less than the bounty.
+ */
+function parsePaymentMints(spec: string): PaymentToken[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      if (entry.toLowerCase() === "sol:native") {
+        return NATIVE_SOL_TOKEN;
+      }
+
+      const [symbol, mint, decimals, program] = entry.split(":");
+      const parsedDecimals = Number(decimals);
+      if (!symbol || !mint || !Number.isInteger(parsedDecimals) || parsedDecimals < 0 || parsedDecimals > 18) {
+        throw new Error(`Invalid PAYMENT_MINTS entry "${entry}" - expected SYMBOL:mint:decimals[:token-2022]`);
+      }
+      if (program && program !== "token-2022" && program !== "token") {
+        throw new Error(`Invalid PAYMENT_MINTS token program "${program}" - use token or token-2022`);
+      }
+      if (mint === NATIVE_MINT.toBase58()) {
+        throw new Error("Wrapped SOL is not a payment mint - list native SOL as SOL:native");
+      }
+
+      return {
+        symbol,
+        mint: new PublicKey(mint),
+        decimals: parsedDecimals,
+        programId: program === "token-2022" ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID,
+      };
+    });
+}
+
+// Allow-list of bounty mints; the first entry is the default
+export const PAYMENT_TOKENS: PaymentToken[] = process.env.PAYMENT_MINTS
+  ? parsePaymentMints(process.env.PAYMENT_MINTS)
+  : USDC_TOKEN ? [USDC_TOKEN] : [];
+
+if (PAYMENT_TOKENS.length === 0) {
+  throw new Error(
+    process.env.PAYMENT_MINTS
+      ? "PAYMENT_MINTS must list at least one mint"
+      : `${NETWORK.name} has no default USDC mint - set USDC_MINT or PAYMENT_MINTS`
+  );
+}
+
+export const DEFAULT_PAYMENT_TOKEN = PAYMENT_TOKENS[0];
+
+// The allow-listed token for a mint, or null if bounties can't be paid in it
+export function findPaymentToken(mint: string): PaymentToken | null {
+  return PAYMENT_TOKENS.find((token) => token.mint.toBase58() === mint) ?? null;
+}
+
+/**
+ * Token of an existing job or escrow. Jobs without a stored mint predate
+ * bounty mints and are USDC. A mint dropped from PAYMENT_MINTS while jobs
+ * still use it can't be settled, so that is an error rather than a guess.
+ */
+export function getPaymentToken(mint: string | null): PaymentToken {
+  if (!mint || mint === USDC_TOKEN?.mint.toBase58()) {
+    if (!USDC_TOKEN) {
+      throw new Error(`Job predates bounty mints but ${NETWORK.name} has no USDC mint configured`);
+    }
+    return findPaymentToken(USDC_TOKEN.mint.toBase58()) ?? USDC_TOKEN;
+  }
+  const token = findPaymentToken(mint);
+  if (!token) {
+    throw new Error(`Bounty mint ${mint} is not in PAYMENT_MINTS`);
+  }
+  return token;
+}
+
+// Public view of a token for API responses
+export function serializePaymentToken(token: PaymentToken): object {
+  return {
+    symbol: token.symbol,
+    mint: token.mint.toBase58(),
+    decimals: token.decimals,
+    tokenProgram: token.programId.toBase58(),
+    native: isNativeSol(token),
+  };
+}
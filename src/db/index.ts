@@ -1,4 +1,5 @@
 import pg from "pg";
+import { NETWORK } from "../config/network.js";
 const { Pool } = pg;
 
 // Railway provides DATABASE_URL automatically when you add PostgreSQL
@@ -19,7 +20,7 @@ export async function initDatabase(): Promise<void> {
         id VARCHAR(20) PRIMARY KEY,
         title VARCHAR(255) NOT NULL,
         description TEXT NOT NULL,
-        bounty_usdc DECIMAL(18, 6) NOT NULL,
+        bounty_usdc DECIMAL(30, 9) NOT NULL,
         bounty_atomic BIGINT NOT NULL,
         requester_wallet VARCHAR(44) NOT NULL,
         worker_wallet VARCHAR(44),
@@ -33,6 +34,29 @@ export async function initDatabase(): Promise<void> {
         paid_at TIMESTAMPTZ
       );
 
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS expiry_hours INTEGER;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS claim_timeout_minutes INTEGER;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS claim_deadline TIMESTAMPTZ;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS review_deadline TIMESTAMPTZ;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deposit_reference VARCHAR(44);
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS settlement_mode VARCHAR(10) NOT NULL DEFAULT 'escrow';
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS bounty_mint VARCHAR(44);
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS settling_tx_sig VARCHAR(100);
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS settling_since TIMESTAMPTZ;
+
+      -- Whole-unit bounty for any mint, not just USDC: SOL has 9 decimals
+      DO $$
+      BEGIN
+        IF (SELECT numeric_scale FROM information_schema.columns
+            WHERE table_schema = current_schema() AND table_name = 'jobs'
+              AND column_name = 'bounty_usdc') < 9 THEN
+          ALTER TABLE jobs ALTER COLUMN bounty_usdc TYPE DECIMAL(30, 9);
+        END IF;
+      END $$;
+
       CREATE TABLE IF NOT EXISTS escrow_records (
         job_id VARCHAR(20) PRIMARY KEY REFERENCES jobs(id),
         requester_wallet VARCHAR(44) NOT NULL,
@@ -45,16 +69,139 @@ export async function initDatabase(): Promise<void> {
         released_at TIMESTAMPTZ
       );
 
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS settlement JSONB;
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS pending_tx_sig VARCHAR(100);
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS pending_tx TEXT;
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS pending_status VARCHAR(20);
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS pending_settlement JSONB;
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS pending_last_valid_block_height BIGINT;
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS pending_since TIMESTAMPTZ;
+      ALTER TABLE escrow_records ADD COLUMN IF NOT EXISTS mint VARCHAR(44);
+
       CREATE TABLE IF NOT EXISTS used_deposit_txs (
         tx_sig VARCHAR(100) PRIMARY KEY,
         used_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       );
 
+      CREATE TABLE IF NOT EXISTS processed_txs (
+        tx_sig VARCHAR(100) PRIMARY KEY,
+        purpose VARCHAR(20) NOT NULL,
+        job_id VARCHAR(20),
+        processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      INSERT INTO processed_txs (tx_sig, purpose, processed_at)
+      SELECT tx_sig, 'deposit', used_at FROM used_deposit_txs
+      ON CONFLICT (tx_sig) DO NOTHING;
+
+      CREATE TABLE IF NOT EXISTS request_nonces (
+        wallet VARCHAR(44) NOT NULL,
+        nonce VARCHAR(64) NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (wallet, nonce)
+      );
+
+      CREATE TABLE IF NOT EXISTS job_abandonments (
+        id SERIAL PRIMARY KEY,
+        job_id VARCHAR(20) NOT NULL REFERENCES jobs(id),
+        worker_wallet VARCHAR(44) NOT NULL,
+        claimed_at TIMESTAMPTZ,
+        claim_deadline TIMESTAMPTZ,
+        abandoned_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS disputes (
+        id VARCHAR(20) PRIMARY KEY,
+        job_id VARCHAR(20) NOT NULL REFERENCES jobs(id),
+        opened_by VARCHAR(44) NOT NULL,
+        opened_by_role VARCHAR(20) NOT NULL,
+        evidence TEXT NOT NULL,
+        response_evidence TEXT,
+        responded_at TIMESTAMPTZ,
+        prior_status VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'open',
+        resolution VARCHAR(20),
+        worker_share_percent DECIMAL(5, 2),
+        resolution_note TEXT,
+        resolution_tx_sig VARCHAR(100),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        resolved_at TIMESTAMPTZ
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_disputes_open_job ON disputes(job_id) WHERE status = 'open';
+
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id VARCHAR(30) PRIMARY KEY,
+        wallet VARCHAR(44) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        revoked_at TIMESTAMPTZ
+      );
+
+      CREATE TABLE IF NOT EXISTS auth_challenges (
+        nonce VARCHAR(32) PRIMARY KEY,
+        wallet VARCHAR(44) NOT NULL,
+        message TEXT NOT NULL,
+        issued_at TIMESTAMPTZ NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS platform_fees (
+        id SERIAL PRIMARY KEY,
+        job_id VARCHAR(20) NOT NULL,
+        source VARCHAR(10) NOT NULL,
+        amount_atomic BIGINT NOT NULL,
+        tx_sig VARCHAR(100) NOT NULL UNIQUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ledger_transactions (
+        id SERIAL PRIMARY KEY,
+        kind VARCHAR(20) NOT NULL,
+        job_id VARCHAR(20),
+        tx_sig VARCHAR(100) NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (kind, tx_sig)
+      );
+
+      CREATE TABLE IF NOT EXISTS ledger_entries (
+        id SERIAL PRIMARY KEY,
+        transaction_id INTEGER NOT NULL REFERENCES ledger_transactions(id),
+        account VARCHAR(60) NOT NULL,
+        amount_atomic BIGINT NOT NULL
+      );
+
+      ALTER TABLE platform_fees ADD COLUMN IF NOT EXISTS mint VARCHAR(44);
+      ALTER TABLE ledger_transactions ADD COLUMN IF NOT EXISTS mint VARCHAR(44);
+
       CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
       CREATE INDEX IF NOT EXISTS idx_jobs_requester ON jobs(requester_wallet);
       CREATE INDEX IF NOT EXISTS idx_jobs_worker ON jobs(worker_wallet);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_deposit_reference ON jobs(deposit_reference);
+      CREATE INDEX IF NOT EXISTS idx_jobs_expires_at ON jobs(expires_at) WHERE status = 'open';
+      CREATE INDEX IF NOT EXISTS idx_jobs_claim_deadline ON jobs(claim_deadline) WHERE status = 'claimed';
+      CREATE INDEX IF NOT EXISTS idx_jobs_review_deadline ON jobs(review_deadline) WHERE status = 'under_review';
+      CREATE INDEX IF NOT EXISTS idx_jobs_settling ON jobs(settling_since) WHERE settling_tx_sig IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_job_abandonments_worker ON job_abandonments(worker_wallet);
+      CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet);
+      CREATE INDEX IF NOT EXISTS idx_request_nonces_expires_at ON request_nonces(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_auth_challenges_expires_at ON auth_challenges(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_platform_fees_job ON platform_fees(job_id);
+      CREATE INDEX IF NOT EXISTS idx_platform_fees_created_at ON platform_fees(created_at);
+      CREATE INDEX IF NOT EXISTS idx_ledger_transactions_job ON ledger_transactions(job_id);
+      CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON ledger_entries(account);
+      CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(transaction_id);
     `);
 
+    // Everything recorded before bounty mints existed was USDC
+    if (NETWORK.usdcMint) {
+      for (const table of ["jobs", "escrow_records", "platform_fees", "ledger_transactions"]) {
+        const column = table === "jobs" ? "bounty_mint" : "mint";
+        await client.query(`UPDATE ${table} SET ${column} = $1 WHERE ${column} IS NULL`, [NETWORK.usdcMint]);
+      }
+    }
+
     console.log("Database schema initialized");
   } finally {
     client.release();
@@ -76,6 +223,23 @@ export async function queryOne<T = any>(text: string, params?: any[]): Promise<T
   return rows[0] || null;
 }
 
+// Run queries in a single transaction; rolls back if fn throws
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // Check if database is connected
 export async function checkConnection(): Promise<boolean> {
   try {
@@ -4,9 +4,16 @@ import { createApp } from "./server/app.js";
 import { wsHub } from "./server/websocket/hub.js";
 import { PORT, HOST } from "./config/constants.js";
 import { initDatabase, checkConnection } from "./db/index.js";
+import { expiryService } from "./services/expiry-service.js";
+import { jobService } from "./services/job-service.js";
+import { reconciliationService } from "./services/reconciliation-service.js";
+import { depositWatcher } from "./services/deposit-watcher.js";
+import { rpcPool } from "./solana/rpc-pool.js";
+import { NETWORK } from "./config/network.js";
 
 async function main() {
   console.log("Starting AgentWork Marketplace...");
+  rpcPool.start();
 
   // Initialize database
   if (process.env.DATABASE_URL) {
@@ -16,6 +23,12 @@ async function main() {
       const connected = await checkConnection();
       if (connected) {
         console.log("Database connected successfully");
+
+        // Finish any escrow settlement interrupted by the previous process
+        await jobService.recoverSettlements();
+        expiryService.start();
+        reconciliationService.start();
+        depositWatcher.start();
       }
     } catch (error) {
       console.error("Database initialization failed:", error);
@@ -42,7 +55,7 @@ async function main() {
 ╠════════════════════════════════════════════════════════════╣
 ║  HTTP Server:  http://${HOST}:${PORT}                         ║
 ║  WebSocket:    ws://${HOST}:${PORT}/ws                        ║
-║  Network:      Solana Devnet                               ║
+║  Network:      ${`Solana ${NETWORK.name}`.padEnd(44)}║
 ║  Database:     ${process.env.DATABASE_URL ? "PostgreSQL" : "In-Memory"}                           ║
 ╚════════════════════════════════════════════════════════════╝
 
@@ -60,12 +73,18 @@ WebSocket Events:
   job.claimed   - Job claimed by worker
   job.completed - Job completed, result available
   job.paid      - Payment received, result delivered
+  job.expired   - Job expired unclaimed, escrow refunded
+  job.unclaimed - Claim timed out, job back in the open pool
 `);
   });
 
   // Graceful shutdown
   process.on("SIGTERM", () => {
     console.log("\nShutting down...");
+    rpcPool.stop();
+    expiryService.stop();
+    reconciliationService.stop();
+    depositWatcher.stop();
     server.close(() => {
       console.log("Server closed");
       process.exit(0);
@@ -74,6 +93,10 @@ WebSocket Events:
 
   process.on("SIGINT", () => {
     console.log("\nShutting down...");
+    rpcPool.stop();
+    expiryService.stop();
+    reconciliationService.stop();
+    depositWatcher.stop();
     server.close(() => {
       console.log("Server closed");
       process.exit(0);
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { query, queryOne } from "../db/index.js";
+
+export const OpenDisputeSchema = z.object({
+  evidence: z.string().min(1).max(10000),
+});
+
+export const ResolveDisputeSchema = z.object({
+  resolution: z.enum(["release", "refund", "split"]),
+  // Percentage of the bounty paid to the worker for split resolutions
+  workerSharePercent: z.number().gt(0).lt(100).optional(),
+  note: z.string().max(2000).optional(),
+}).refine(
+  (input) => input.resolution !== "split" || input.workerSharePercent !== undefined,
+  { message: "workerSharePercent required for split", path: ["workerSharePercent"] }
+);
+
+export type OpenDisputeInput = z.infer<typeof OpenDisputeSchema>;
+export type ResolveDisputeInput = z.infer<typeof ResolveDisputeSchema>;
+
+export type DisputeRole = "requester" | "worker";
+export type DisputeResolution = "release" | "refund" | "split";
+
+export interface Dispute {
+  id: string;
+  jobId: string;
+  openedBy: string;
+  openedByRole: DisputeRole;
+  evidence: string;
+  responseEvidence: string | null;
+  respondedAt: Date | null;
+  priorStatus: string;
+  status: "open" | "resolved";
+  resolution: DisputeResolution | null;
+  workerSharePercent: number | null;
+  resolutionNote: string | null;
+  resolutionTxSig: string | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+function rowToDispute(row: any): Dispute {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    openedBy: row.opened_by,
+    openedByRole: row.opened_by_role,
+    evidence: row.evidence,
+    responseEvidence: row.response_evidence,
+    respondedAt: row.responded_at ? new Date(row.responded_at) : null,
+    priorStatus: row.prior_status,
+    status: row.status,
+    resolution: row.resolution,
+    workerSharePercent: row.worker_share_percent !== null ? parseFloat(row.worker_share_percent) : null,
+    resolutionNote: row.resolution_note,
+    resolutionTxSig: row.resolution_tx_sig,
+    createdAt: new Date(row.created_at),
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+  };
+}
+
+export async function createDispute(
+  jobId: string,
+  openedBy: string,
+  openedByRole: DisputeRole,
+  evidence: string,
+  priorStatus: string
+): Promise<Dispute> {
+  const id = `dsp_${uuidv4().slice(0, 8)}`;
+
+  const rows = await query<any>(
+    `INSERT INTO disputes (id, job_id, opened_by, opened_by_role, evidence, prior_status)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [id, jobId, openedBy, openedByRole, evidence, priorStatus]
+  );
+
+  return rowToDispute(rows[0]);
+}
+
+export async function addDisputeResponse(id: string, evidence: string): Promise<Dispute | null> {
+  const rows = await query<any>(
+    `UPDATE disputes
+     SET response_evidence = $1, responded_at = NOW()
+     WHERE id = $2 AND status = 'open' AND response_evidence IS NULL
+     RETURNING *`,
+    [evidence, id]
+  );
+
+  return rows[0] ? rowToDispute(rows[0]) : null;
+}
+
+export async function resolveDispute(
+  id: string,
+  resolution: DisputeResolution,
+  workerSharePercent: number | null,
+  note: string | null,
+  txSig: string
+): Promise<Dispute | null> {
+  const rows = await query<any>(
+    `UPDATE disputes
+     SET status = 'resolved', resolution = $1, worker_share_percent = $2,
+         resolution_note = $3, resolution_tx_sig = $4, resolved_at = NOW()
+     WHERE id = $5 AND status = 'open'
+     RETURNING *`,
+    [resolution, workerSharePercent, note, txSig, id]
+  );
+
+  return rows[0] ? rowToDispute(rows[0]) : null;
+}
+
+export async function getDispute(id: string): Promise<Dispute | null> {
+  const row = await queryOne<any>(`SELECT * FROM disputes WHERE id = $1`, [id]);
+  return row ? rowToDispute(row) : null;
+}
+
+export async function getOpenDisputeForJob(jobId: string): Promise<Dispute | null> {
+  const row = await queryOne<any>(
+    `SELECT * FROM disputes WHERE job_id = $1 AND status = 'open'`,
+    [jobId]
+  );
+  return row ? rowToDispute(row) : null;
+}
+
+export async function listDisputes(status?: "open" | "resolved"): Promise<Dispute[]> {
+  const rows = status
+    ? await query<any>(`SELECT * FROM disputes WHERE status = $1 ORDER BY created_at DESC`, [status])
+    : await query<any>(`SELECT * FROM disputes ORDER BY created_at DESC`);
+
+  return rows.map(rowToDispute);
+}
@@ -1,15 +1,44 @@
 import { z } from "zod";
+import type pg from "pg";
 import { v4 as uuidv4 } from "uuid";
-import { JobStatus } from "../config/constants.js";
+import { Keypair } from "@solana/web3.js";
+import {
+  JobStatus,
+  JOB_EXPIRY_HOURS,
+  MAX_JOB_EXPIRY_HOURS,
+  CLAIM_TIMEOUT_MINUTES,
+  MAX_CLAIM_TIMEOUT_MINUTES,
+  REVIEW_WINDOW_HOURS,
+  DISPUTE_WINDOW_HOURS,
+  SettlementMode,
+  toAtomicUnits,
+} from "../config/constants.js";
+import { DEFAULT_PAYMENT_TOKEN, findPaymentToken, getPaymentToken, PaymentToken } from "../config/tokens.js";
 import { query, queryOne } from "../db/index.js";
 
 // Job schema for validation
 export const CreateJobSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().min(1).max(5000),
-  bountyUsdc: z.number().positive().max(1000),
+  // Bounty in whole units of bountyMint; bountyUsdc is the older name for it
+  bountyAmount: z.number().positive().max(1000).optional(),
+  bountyUsdc: z.number().positive().max(1000).optional(),
+  // Mint the bounty is paid in; must be on the PAYMENT_MINTS allow-list
+  bountyMint: z.string()
+    .refine((mint) => findPaymentToken(mint) !== null, "Mint is not an accepted payment token")
+    .optional()
+    .default(DEFAULT_PAYMENT_TOKEN.mint.toBase58()),
   requesterWallet: z.string().min(32).max(44),
   tags: z.array(z.string()).optional().default([]),
+  // Hours the job stays open once the escrow deposit is verified
+  expiresInHours: z.number().int().min(1).max(MAX_JOB_EXPIRY_HOURS).optional().default(JOB_EXPIRY_HOURS),
+  // Minutes a worker has to complete the job after claiming it
+  claimTimeoutMinutes: z.number().int().min(5).max(MAX_CLAIM_TIMEOUT_MINUTES).optional().default(CLAIM_TIMEOUT_MINUTES),
+  // Escrow deposit up front, or pay on delivery through the x402 paywall
+  settlementMode: z.nativeEnum(SettlementMode).optional().default(SettlementMode.ESCROW),
+}).refine((input) => input.bountyAmount !== undefined || input.bountyUsdc !== undefined, {
+  message: "bountyAmount is required",
+  path: ["bountyAmount"],
 });
 
 export const ClaimJobSchema = z.object({
@@ -21,6 +50,10 @@ export const CompleteJobSchema = z.object({
   workerWallet: z.string().min(32).max(44),
 });
 
+export const RejectJobSchema = z.object({
+  reason: z.string().min(1).max(2000),
+});
+
 export type CreateJobInput = z.infer<typeof CreateJobSchema>;
 export type ClaimJobInput = z.infer<typeof ClaimJobSchema>;
 export type CompleteJobInput = z.infer<typeof CompleteJobSchema>;
@@ -30,8 +63,9 @@ export interface Job {
   id: string;
   title: string;
   description: string;
-  bountyUsdc: number;
+  bountyAmount: number; // Whole units of bountyMint
   bountyAtomic: bigint;
+  bountyMint: string;
   requesterWallet: string;
   workerWallet: string | null;
   status: JobStatus;
@@ -45,6 +79,24 @@ export interface Job {
   escrowVerifiedAt: Date | null;
   escrowReleaseTx: string | null;
   expiresAt: Date | null;
+  claimDeadline: Date | null;
+  reviewDeadline: Date | null;
+  reviewedAt: Date | null;
+  rejectionReason: string | null;
+  // Solana Pay style reference key the deposit transaction must include
+  depositReference: string | null;
+  settlementMode: SettlementMode;
+  // x402 payment currently being settled for this job, if any
+  settlingTxSig: string | null;
+  settlingSince: Date | null;
+}
+
+export interface JobAbandonment {
+  jobId: string;
+  workerWallet: string;
+  claimedAt: Date | null;
+  claimDeadline: Date | null;
+  abandonedAt: Date;
 }
 
 export interface JobResult {
@@ -60,8 +112,9 @@ function rowToJob(row: any): Job {
     id: row.id,
     title: row.title,
     description: row.description,
-    bountyUsdc: parseFloat(row.bounty_usdc),
+    bountyAmount: parseFloat(row.bounty_usdc),
     bountyAtomic: BigInt(row.bounty_atomic),
+    bountyMint: row.bounty_mint ?? getPaymentToken(null).mint.toBase58(),
     requesterWallet: row.requester_wallet,
     workerWallet: row.worker_wallet,
     status: row.status as JobStatus,
@@ -74,33 +127,49 @@ function rowToJob(row: any): Job {
     escrowDepositTx: row.deposit_tx_sig,
     escrowVerifiedAt: row.deposit_tx_sig ? new Date(row.created_at) : null,
     escrowReleaseTx: row.payment_tx_sig,
-    expiresAt: null,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    claimDeadline: row.claim_deadline ? new Date(row.claim_deadline) : null,
+    reviewDeadline: row.review_deadline ? new Date(row.review_deadline) : null,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    rejectionReason: row.rejection_reason,
+    depositReference: row.deposit_reference ?? null,
+    settlementMode: (row.settlement_mode ?? SettlementMode.ESCROW) as SettlementMode,
+    settlingTxSig: row.settling_tx_sig ?? null,
+    settlingSince: row.settling_since ? new Date(row.settling_since) : null,
   };
 }
 
 // CRUD operations (async for PostgreSQL)
 export async function createJob(input: CreateJobInput): Promise<Job> {
   const id = `job_${uuidv4().slice(0, 8)}`;
-  const bountyAtomic = BigInt(Math.round(input.bountyUsdc * 1e6));
+  const token = getPaymentToken(input.bountyMint);
+  const bountyAmount = (input.bountyAmount ?? input.bountyUsdc)!;
+  const bountyAtomic = toAtomicUnits(bountyAmount, token.decimals);
+  // Pay-on-delivery jobs have no deposit, so they open right away
+  const payOnDelivery = input.settlementMode === SettlementMode.X402;
+  // A fresh public key nobody holds; it only ever appears in this job's deposit
+  const depositReference = payOnDelivery ? null : Keypair.generate().publicKey.toBase58();
 
   const rows = await query<any>(
-    `INSERT INTO jobs (id, title, description, bounty_usdc, bounty_atomic, requester_wallet, status)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `INSERT INTO jobs (id, title, description, bounty_usdc, bounty_atomic, requester_wallet, status, expiry_hours, claim_timeout_minutes, deposit_reference, settlement_mode, expires_at, bounty_mint)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
+             CASE WHEN $7::text = $12::text THEN NOW() + make_interval(hours => $8) END, $13)
      RETURNING *`,
-    [id, input.title, input.description, input.bountyUsdc, bountyAtomic.toString(), input.requesterWallet, JobStatus.PENDING_DEPOSIT]
+    [id, input.title, input.description, bountyAmount, bountyAtomic.toString(), input.requesterWallet, payOnDelivery ? JobStatus.OPEN : JobStatus.PENDING_DEPOSIT, input.expiresInHours, input.claimTimeoutMinutes, depositReference, input.settlementMode, JobStatus.OPEN, token.mint.toBase58()]
   );
 
   return rowToJob(rows[0]);
 }
 
-export async function activateJob(id: string, depositTxSig: string): Promise<Job | null> {
-  const rows = await query<any>(
-    `UPDATE jobs
-     SET status = $1, deposit_tx_sig = $2
+// Pass a client to activate inside the caller's transaction (e.g. with the escrow record)
+export async function activateJob(id: string, depositTxSig: string, client?: pg.PoolClient): Promise<Job | null> {
+  const sql = `UPDATE jobs
+     SET status = $1, deposit_tx_sig = $2,
+         expires_at = NOW() + make_interval(hours => COALESCE(expiry_hours, $5))
      WHERE id = $3 AND status = $4
-     RETURNING *`,
-    [JobStatus.OPEN, depositTxSig, id, JobStatus.PENDING_DEPOSIT]
-  );
+     RETURNING *`;
+  const params = [JobStatus.OPEN, depositTxSig, id, JobStatus.PENDING_DEPOSIT, JOB_EXPIRY_HOURS];
+  const rows = client ? (await client.query(sql, params)).rows : await query<any>(sql, params);
 
   return rows[0] ? rowToJob(rows[0]) : null;
 }
@@ -129,13 +198,178 @@ export async function expireJob(id: string): Promise<Job | null> {
   return rows[0] ? rowToJob(rows[0]) : null;
 }
 
+// Atomically move every OPEN job past its expiry to EXPIRED
+export async function expireOverdueJobs(): Promise<Job[]> {
+  const rows = await query<any>(
+    `UPDATE jobs
+     SET status = $1
+     WHERE status = $2 AND expires_at IS NOT NULL AND expires_at <= NOW()
+     RETURNING *`,
+    [JobStatus.EXPIRED, JobStatus.OPEN]
+  );
+
+  return rows.map(rowToJob);
+}
+
+// Jobs owed a refund whose escrow is still held: expired jobs, and rejected
+// jobs whose dispute window has closed without a dispute
+export async function listRefundableWithHeldEscrow(): Promise<Job[]> {
+  const rows = await query<any>(
+    `SELECT j.* FROM jobs j
+     JOIN escrow_records e ON e.job_id = j.id
+     WHERE e.status = 'held'
+       AND (j.status = $1
+         OR (j.status = $2 AND j.reviewed_at <= NOW() - make_interval(hours => $3)))`,
+    [JobStatus.EXPIRED, JobStatus.REJECTED, DISPUTE_WINDOW_HOURS]
+  );
+
+  return rows.map(rowToJob);
+}
+
+// Escrow results whose review window has elapsed without a decision
+export async function listReviewOverdue(): Promise<Job[]> {
+  const rows = await query<any>(
+    `SELECT * FROM jobs
+     WHERE status = $1 AND settlement_mode = $2
+       AND review_deadline IS NOT NULL AND review_deadline <= NOW()
+     ORDER BY review_deadline`,
+    [JobStatus.UNDER_REVIEW, SettlementMode.ESCROW]
+  );
+
+  return rows.map(rowToJob);
+}
+
+export async function rejectJob(id: string, reason: string): Promise<Job | null> {
+  const rows = await query<any>(
+    `UPDATE jobs
+     SET status = $1, rejection_reason = $2, reviewed_at = NOW()
+     WHERE id = $3 AND status = ANY($4)
+     RETURNING *`,
+    [JobStatus.REJECTED, reason, id, [JobStatus.UNDER_REVIEW, JobStatus.COMPLETED]]
+  );
+
+  return rows[0] ? rowToJob(rows[0]) : null;
+}
+
+// Return CLAIMED jobs past their completion deadline to the open pool,
+// recording the abandoning worker. Returns the reopened jobs and who dropped them.
+export async function releaseStaleClaims(): Promise<Array<{ job: Job; abandonedBy: string }>> {
+  const rows = await query<any>(
+    `WITH stale AS (
+       SELECT id, worker_wallet, claimed_at, claim_deadline FROM jobs
+       WHERE status = $1 AND claim_deadline IS NOT NULL AND claim_deadline <= NOW()
+       FOR UPDATE SKIP LOCKED
+     ), reopened AS (
+       UPDATE jobs j
+       SET status = $2, worker_wallet = NULL, claimed_at = NULL, claim_deadline = NULL
+       FROM stale
+       WHERE j.id = stale.id
+       RETURNING j.*, stale.worker_wallet AS abandoned_by,
+                 stale.claimed_at AS abandoned_claimed_at,
+                 stale.claim_deadline AS abandoned_deadline
+     ), logged AS (
+       INSERT INTO job_abandonments (job_id, worker_wallet, claimed_at, claim_deadline)
+       SELECT id, abandoned_by, abandoned_claimed_at, abandoned_deadline FROM reopened
+     )
+     SELECT * FROM reopened`,
+    [JobStatus.CLAIMED, JobStatus.OPEN]
+  );
+
+  return rows.map((row) => ({ job: rowToJob(row), abandonedBy: row.abandoned_by }));
+}
+
+export async function listAbandonments(filter: { jobId?: string; workerWallet?: string } = {}): Promise<JobAbandonment[]> {
+  const rows = await query<any>(
+    `SELECT * FROM job_abandonments
+     WHERE ($1::text IS NULL OR job_id = $1) AND ($2::text IS NULL OR worker_wallet = $2)
+     ORDER BY abandoned_at DESC`,
+    [filter.jobId ?? null, filter.workerWallet ?? null]
+  );
+
+  return rows.map((row) => ({
+    jobId: row.job_id,
+    workerWallet: row.worker_wallet,
+    claimedAt: row.claimed_at ? new Date(row.claimed_at) : null,
+    claimDeadline: row.claim_deadline ? new Date(row.claim_deadline) : null,
+    abandonedAt: new Date(row.abandoned_at),
+  }));
+}
+
+// Reviewable jobs whose escrow has already been released to the worker
+export async function listUnpaidWithReleasedEscrow(): Promise<Array<{ job: Job; releaseTxSig: string }>> {
+  const rows = await query<any>(
+    `SELECT j.*, e.release_tx_sig AS escrow_release_tx_sig FROM jobs j
+     JOIN escrow_records e ON e.job_id = j.id
+     WHERE j.status = ANY($1) AND e.status = 'released'`,
+    [[JobStatus.UNDER_REVIEW, JobStatus.COMPLETED]]
+  );
+
+  return rows.map((row) => ({ job: rowToJob(row), releaseTxSig: row.escrow_release_tx_sig }));
+}
+
+// Disputed jobs whose escrow a resolution settled (e.g. confirmed only by
+// recovery) while the job and its dispute were left open
+export async function listDisputedWithSettledEscrow(): Promise<Array<{
+  job: Job;
+  escrowStatus: "released" | "refunded" | "split";
+  releaseTxSig: string;
+  workerPercent: number | null;
+}>> {
+  const rows = await query<any>(
+    `SELECT j.*, e.status AS escrow_status, e.release_tx_sig AS escrow_release_tx_sig,
+            e.settlement AS escrow_settlement
+     FROM jobs j
+     JOIN escrow_records e ON e.job_id = j.id
+     WHERE j.status = $1 AND e.status IN ('released', 'refunded', 'split')`,
+    [JobStatus.DISPUTED]
+  );
+
+  return rows.map((row) => {
+    const worker = (row.escrow_settlement ?? []).find((leg: any) => leg.role === "worker");
+    return {
+      job: rowToJob(row),
+      escrowStatus: row.escrow_status,
+      releaseTxSig: row.escrow_release_tx_sig,
+      workerPercent: worker ? Number(worker.percent) : null,
+    };
+  });
+}
+
+// Move a job into arbitration from one of the allowed statuses
+export async function markJobDisputed(id: string, fromStatuses: JobStatus[]): Promise<Job | null> {
+  const rows = await query<any>(
+    `UPDATE jobs
+     SET status = $1
+     WHERE id = $2 AND status = ANY($3)
+     RETURNING *`,
+    [JobStatus.DISPUTED, id, fromStatuses]
+  );
+
+  return rows[0] ? rowToJob(rows[0]) : null;
+}
+
+// Record the outcome of an arbitrated job
+export async function markDisputeSettled(id: string, status: JobStatus, txSig: string): Promise<Job | null> {
+  const rows = await query<any>(
+    `UPDATE jobs
+     SET status = $1, payment_tx_sig = $2,
+         paid_at = CASE WHEN $1::text = $5::text THEN paid_at ELSE NOW() END
+     WHERE id = $3 AND status = $4
+     RETURNING *`,
+    [status, txSig, id, JobStatus.DISPUTED, JobStatus.REJECTED]
+  );
+
+  return rows[0] ? rowToJob(rows[0]) : null;
+}
+
+// Mark a reviewable escrow job paid by its release; null if the job is not under review
 export async function markEscrowReleased(id: string, releaseTxSig: string): Promise<Job | null> {
   const rows = await query<any>(
     `UPDATE jobs
-     SET status = $1, payment_tx_sig = $2, paid_at = NOW()
-     WHERE id = $3
+     SET status = $1, payment_tx_sig = $2, paid_at = NOW(), reviewed_at = COALESCE(reviewed_at, NOW())
+     WHERE id = $3 AND settlement_mode = $4 AND status = ANY($5)
      RETURNING *`,
-    [JobStatus.PAID, releaseTxSig, id]
+    [JobStatus.PAID, releaseTxSig, id, SettlementMode.ESCROW, [JobStatus.UNDER_REVIEW, JobStatus.COMPLETED]]
   );
 
   return rows[0] ? rowToJob(rows[0]) : null;
@@ -170,10 +404,11 @@ export async function listJobs(status?: JobStatus): Promise<Job[]> {
 export async function claimJob(id: string, workerWallet: string): Promise<Job | null> {
   const rows = await query<any>(
     `UPDATE jobs
-     SET worker_wallet = $1, status = $2, claimed_at = NOW()
-     WHERE id = $3 AND status = $4
+     SET worker_wallet = $1, status = $2, claimed_at = NOW(),
+         claim_deadline = NOW() + make_interval(mins => COALESCE(claim_timeout_minutes, $5))
+     WHERE id = $3 AND status = $4 AND (expires_at IS NULL OR expires_at > NOW())
      RETURNING *`,
-    [workerWallet, JobStatus.CLAIMED, id, JobStatus.OPEN]
+    [workerWallet, JobStatus.CLAIMED, id, JobStatus.OPEN, CLAIM_TIMEOUT_MINUTES]
   );
 
   return rows[0] ? rowToJob(rows[0]) : null;
@@ -182,10 +417,12 @@ export async function claimJob(id: string, workerWallet: string): Promise<Job |
 export async function completeJob(id: string, result: string, workerWallet: string): Promise<Job | null> {
   const rows = await query<any>(
     `UPDATE jobs
-     SET status = $1, result = $2, completed_at = NOW()
+     SET status = $1, result = $2, completed_at = NOW(),
+         review_deadline = CASE WHEN settlement_mode = $7 THEN NOW() + make_interval(hours => $6) END
      WHERE id = $3 AND status = $4 AND worker_wallet = $5
+       AND (claim_deadline IS NULL OR claim_deadline > NOW())
      RETURNING *`,
-    [JobStatus.COMPLETED, result, id, JobStatus.CLAIMED, workerWallet]
+    [JobStatus.UNDER_REVIEW, result, id, JobStatus.CLAIMED, workerWallet, REVIEW_WINDOW_HOURS, SettlementMode.ESCROW]
   );
 
   return rows[0] ? rowToJob(rows[0]) : null;
@@ -207,26 +444,76 @@ export async function getResult(jobId: string): Promise<JobResult | null> {
   };
 }
 
+// Record an x402 payment; escrow-funded jobs can only be paid by release
 export async function markJobPaid(id: string, txSig: string): Promise<Job | null> {
   const rows = await query<any>(
     `UPDATE jobs
-     SET status = $1, payment_tx_sig = $2, paid_at = NOW()
-     WHERE id = $3 AND status = $4
+     SET status = $1, payment_tx_sig = $2, paid_at = NOW(), reviewed_at = NOW(),
+         settling_tx_sig = NULL, settling_since = NULL
+     WHERE id = $3 AND status = ANY($4) AND settlement_mode = $5
      RETURNING *`,
-    [JobStatus.PAID, txSig, id, JobStatus.COMPLETED]
+    [JobStatus.PAID, txSig, id, [JobStatus.UNDER_REVIEW, JobStatus.COMPLETED], SettlementMode.X402]
   );
 
   return rows[0] ? rowToJob(rows[0]) : null;
 }
 
+// Claim an unpaid pay-on-delivery job for one x402 payment. Returns false if
+// another payment already holds it, on any replica.
+export async function claimX402Settlement(id: string, txSig: string): Promise<boolean> {
+  const rows = await query(
+    `UPDATE jobs
+     SET settling_tx_sig = $1, settling_since = NOW()
+     WHERE id = $2 AND status = ANY($3) AND settlement_mode = $4 AND settling_tx_sig IS NULL
+     RETURNING id`,
+    [txSig, id, [JobStatus.UNDER_REVIEW, JobStatus.COMPLETED], SettlementMode.X402]
+  );
+  return rows.length > 0;
+}
+
+// Give up a claim whose payment is known not to have landed
+export async function releaseX402Settlement(id: string, txSig: string): Promise<void> {
+  await query(
+    `UPDATE jobs SET settling_tx_sig = NULL, settling_since = NULL
+     WHERE id = $1 AND settling_tx_sig = $2`,
+    [id, txSig]
+  );
+}
+
+// Unpaid jobs whose x402 settlement claim is older than the given age
+export async function listStaleX402Settlements(olderThanSeconds: number): Promise<Job[]> {
+  const rows = await query<any>(
+    `SELECT * FROM jobs
+     WHERE settling_tx_sig IS NOT NULL AND status = ANY($1)
+       AND settling_since < NOW() - make_interval(secs => $2)
+     ORDER BY settling_since`,
+    [[JobStatus.UNDER_REVIEW, JobStatus.COMPLETED], olderThanSeconds]
+  );
+  return rows.map(rowToJob);
+}
+
+// Token of a job's bounty; null when its mint has since been dropped from PAYMENT_MINTS
+export function jobToken(job: Job): PaymentToken | null {
+  try {
+    return getPaymentToken(job.bountyMint);
+  } catch {
+    return null;
+  }
+}
+
 // Serialize job for API response
 export function serializeJob(job: Job): object {
   return {
     id: job.id,
     title: job.title,
     description: job.description,
-    bountyUsdc: job.bountyUsdc,
+    bountyAmount: job.bountyAmount,
     bountyAtomic: job.bountyAtomic.toString(),
+    bountyMint: job.bountyMint,
+    // Unknown once the mint leaves PAYMENT_MINTS; bountyAtomic still holds the amount
+    bountySymbol: jobToken(job)?.symbol ?? null,
+    // Pre-multi-mint name for bountyAmount, kept for existing clients
+    bountyUsdc: job.bountyAmount,
     requesterWallet: job.requesterWallet,
     workerWallet: job.workerWallet,
     status: job.status,
@@ -238,5 +525,11 @@ export function serializeJob(job: Job): object {
     depositTxSig: job.escrowDepositTx,
     paymentTxSig: job.paymentTxSig,
     expiresAt: job.expiresAt,
+    claimDeadline: job.claimDeadline,
+    reviewDeadline: job.reviewDeadline,
+    reviewedAt: job.reviewedAt,
+    rejectionReason: job.rejectionReason,
+    depositReference: job.depositReference,
+    settlementMode: job.settlementMode,
   };
 }
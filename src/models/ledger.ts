@@ -0,0 +1,186 @@
+import type pg from "pg";
+import { query, withTransaction } from "../db/index.js";
+
+// Internal accounts; external parties use walletAccount(address)
+export const ESCROW_ACCOUNT = "escrow";
+export const PLATFORM_FEES_ACCOUNT = "platform_fees";
+
+export function walletAccount(address: string): string {
+  return `wallet:${address}`;
+}
+
+export type LedgerTransactionKind = "deposit" | "release" | "refund" | "split" | "x402_payment";
+
+// Signed amount: positive moves value into the account, negative out of it.
+// The entries of one transaction always sum to zero.
+export interface LedgerEntryInput {
+  account: string;
+  amountAtomic: bigint;
+}
+
+export interface LedgerEntry {
+  id: number;
+  transactionId: number;
+  kind: LedgerTransactionKind;
+  jobId: string | null;
+  txSig: string;
+  mint: string;
+  account: string;
+  amountAtomic: bigint;
+  createdAt: Date;
+}
+
+// Balances are per account and mint; amounts in different tokens never net out
+export interface LedgerBalance {
+  account: string;
+  mint: string;
+  balanceAtomic: bigint;
+  entryCount: number;
+}
+
+function rowToLedgerEntry(row: any): LedgerEntry {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    kind: row.kind,
+    jobId: row.job_id,
+    txSig: row.tx_sig,
+    mint: row.mint,
+    account: row.account,
+    amountAtomic: BigInt(row.amount_atomic),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Post a balanced ledger transaction in a single mint. Idempotent per
+ * (kind, txSig): posting the same on-chain movement twice is a no-op and
+ * returns null. Pass a client to post inside the caller's transaction.
+ */
+export async function postLedgerTransaction(
+  kind: LedgerTransactionKind,
+  jobId: string | null,
+  mint: string,
+  txSig: string,
+  entries: LedgerEntryInput[],
+  client?: pg.PoolClient
+): Promise<number | null> {
+  const nonZero = entries.filter((e) => e.amountAtomic !== 0n);
+  const sum = nonZero.reduce((total, e) => total + e.amountAtomic, 0n);
+  if (nonZero.length < 2 || sum !== 0n) {
+    throw new Error(`Unbalanced ledger transaction ${kind} ${txSig}: entries sum to ${sum}`);
+  }
+
+  const post = async (client: pg.PoolClient): Promise<number | null> => {
+    const { rows } = await client.query(
+      `INSERT INTO ledger_transactions (kind, job_id, mint, tx_sig)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (kind, tx_sig) DO NOTHING
+       RETURNING id`,
+      [kind, jobId, mint, txSig]
+    );
+    if (!rows[0]) {
+      return null;
+    }
+
+    const transactionId: number = rows[0].id;
+    for (const entry of nonZero) {
+      await client.query(
+        `INSERT INTO ledger_entries (transaction_id, account, amount_atomic)
+         VALUES ($1, $2, $3)`,
+        [transactionId, entry.account, entry.amountAtomic.toString()]
+      );
+    }
+    return transactionId;
+  };
+
+  return client ? post(client) : withTransaction(post);
+}
+
+export async function listLedgerEntries(
+  filter: { account?: string; jobId?: string; limit?: number } = {}
+): Promise<LedgerEntry[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filter.account) {
+    params.push(filter.account);
+    conditions.push(`e.account = $${params.length}`);
+  }
+  if (filter.jobId) {
+    params.push(filter.jobId);
+    conditions.push(`t.job_id = $${params.length}`);
+  }
+  params.push(filter.limit ?? 500);
+
+  const rows = await query<any>(
+    `SELECT e.id, e.transaction_id, e.account, e.amount_atomic, t.kind, t.job_id, t.mint, t.tx_sig, t.created_at
+     FROM ledger_entries e
+     JOIN ledger_transactions t ON t.id = e.transaction_id
+     ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY t.created_at DESC, e.id
+     LIMIT $${params.length}`,
+    params
+  );
+  return rows.map(rowToLedgerEntry);
+}
+
+export async function getLedgerBalances(account?: string): Promise<LedgerBalance[]> {
+  const rows = await query<{ account: string; mint: string; balance: string; count: string }>(
+    `SELECT e.account, t.mint, COALESCE(SUM(e.amount_atomic), 0) AS balance, COUNT(*) AS count
+     FROM ledger_entries e
+     JOIN ledger_transactions t ON t.id = e.transaction_id
+     ${account ? "WHERE e.account = $1" : ""}
+     GROUP BY e.account, t.mint
+     ORDER BY e.account, t.mint`,
+    account ? [account] : []
+  );
+
+  return rows.map((row) => ({
+    account: row.account,
+    mint: row.mint,
+    balanceAtomic: BigInt(row.balance),
+    entryCount: parseInt(row.count, 10),
+  }));
+}
+
+// Transactions whose entries do not sum to zero (should always be empty)
+export async function listUnbalancedTransactions(): Promise<Array<{ transactionId: number; sumAtomic: bigint }>> {
+  const rows = await query<{ transaction_id: number; total: string }>(
+    `SELECT transaction_id, SUM(amount_atomic) AS total
+     FROM ledger_entries
+     GROUP BY transaction_id
+     HAVING SUM(amount_atomic) <> 0`
+  );
+  return rows.map((row) => ({ transactionId: row.transaction_id, sumAtomic: BigInt(row.total) }));
+}
+
+// Per-job escrow ledger balance next to what escrow_records says is held
+export async function listEscrowMismatches(): Promise<Array<{ jobId: string; ledgerAtomic: bigint; recordAtomic: bigint }>> {
+  const rows = await query<{ job_id: string; ledger: string; record: string }>(
+    `WITH ledger AS (
+       SELECT t.job_id, SUM(e.amount_atomic) AS amount
+       FROM ledger_entries e
+       JOIN ledger_transactions t ON t.id = e.transaction_id
+       WHERE e.account = $1 AND t.job_id IS NOT NULL
+       GROUP BY t.job_id
+     ), records AS (
+       SELECT job_id,
+              CASE WHEN status IN ('held', 'disputed', 'releasing') THEN amount_atomic ELSE 0 END AS amount
+       FROM escrow_records
+     )
+     SELECT COALESCE(l.job_id, r.job_id) AS job_id,
+            COALESCE(l.amount, 0) AS ledger,
+            COALESCE(r.amount, 0) AS record
+     FROM ledger l
+     FULL OUTER JOIN records r ON r.job_id = l.job_id
+     WHERE COALESCE(l.amount, 0) <> COALESCE(r.amount, 0)`,
+    [ESCROW_ACCOUNT]
+  );
+
+  return rows.map((row) => ({
+    jobId: row.job_id,
+    ledgerAtomic: BigInt(row.ledger),
+    recordAtomic: BigInt(row.record),
+  }));
+}
@@ -0,0 +1,120 @@
+import type pg from "pg";
+import { query, queryOne } from "../db/index.js";
+
+// Where a fee was collected: x402 result payments or escrow settlements
+export type PlatformFeeSource = "x402" | "escrow";
+
+export interface PlatformFee {
+  id: number;
+  jobId: string;
+  source: PlatformFeeSource;
+  amountAtomic: bigint;
+  mint: string;
+  txSig: string;
+  createdAt: Date;
+}
+
+export interface PlatformFeeFilter {
+  jobId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+function rowToPlatformFee(row: any): PlatformFee {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    source: row.source,
+    amountAtomic: BigInt(row.amount_atomic),
+    mint: row.mint,
+    txSig: row.tx_sig,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Build the WHERE clause shared by list and summary queries
+function feeWhere(filter: PlatformFeeFilter): { clause: string; params: any[] } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filter.jobId) {
+    params.push(filter.jobId);
+    conditions.push(`job_id = $${params.length}`);
+  }
+  if (filter.from) {
+    params.push(filter.from);
+    conditions.push(`created_at >= $${params.length}`);
+  }
+  if (filter.to) {
+    params.push(filter.to);
+    conditions.push(`created_at < $${params.length}`);
+  }
+
+  return {
+    clause: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+// Record a collected fee. Idempotent per transaction so retries and
+// settlement recovery never double count. Pass a client to record inside the
+// caller's transaction.
+export async function recordPlatformFee(
+  jobId: string,
+  source: PlatformFeeSource,
+  amountAtomic: bigint,
+  mint: string,
+  txSig: string,
+  client?: pg.PoolClient
+): Promise<PlatformFee | null> {
+  const sql = `INSERT INTO platform_fees (job_id, source, amount_atomic, mint, tx_sig)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (tx_sig) DO NOTHING
+     RETURNING *`;
+  const params = [jobId, source, amountAtomic.toString(), mint, txSig];
+  const row = client ? (await client.query(sql, params)).rows[0] : await queryOne<any>(sql, params);
+  return row ? rowToPlatformFee(row) : null;
+}
+
+export async function listPlatformFees(filter: PlatformFeeFilter = {}): Promise<PlatformFee[]> {
+  const { clause, params } = feeWhere(filter);
+  const rows = await query<any>(
+    `SELECT * FROM platform_fees ${clause} ORDER BY created_at DESC`,
+    params
+  );
+  return rows.map(rowToPlatformFee);
+}
+
+// Fee totals for one mint
+export interface PlatformFeeTotals {
+  mint: string;
+  total: bigint;
+  count: number;
+  bySource: Record<PlatformFeeSource, bigint>;
+}
+
+// Fee totals per mint, since amounts in different tokens can't be added up
+export async function summarizePlatformFees(filter: PlatformFeeFilter = {}): Promise<PlatformFeeTotals[]> {
+  const { clause, params } = feeWhere(filter);
+  const rows = await query<{ mint: string; source: PlatformFeeSource; total: string; count: string }>(
+    `SELECT mint, source, COALESCE(SUM(amount_atomic), 0) AS total, COUNT(*) AS count
+     FROM platform_fees ${clause}
+     GROUP BY mint, source
+     ORDER BY mint`,
+    params
+  );
+
+  const byMint = new Map<string, PlatformFeeTotals>();
+  for (const row of rows) {
+    let totals = byMint.get(row.mint);
+    if (!totals) {
+      totals = { mint: row.mint, total: 0n, count: 0, bySource: { x402: 0n, escrow: 0n } };
+      byMint.set(row.mint, totals);
+    }
+    totals.bySource[row.source] = BigInt(row.total);
+    totals.total += BigInt(row.total);
+    totals.count += parseInt(row.count, 10);
+  }
+
+  return [...byMint.values()];
+}
@@ -0,0 +1,33 @@
+import { query } from "../db/index.js";
+
+// What a transaction was accepted as; a signature can only ever be used once
+export type ProcessedTxPurpose = "deposit" | "x402";
+
+/**
+ * Atomically claim a transaction signature. Returns false if it was already
+ * claimed by any request on any replica. The primary key makes the insert
+ * the check, so there is no window between "is it used?" and "mark used".
+ */
+export async function claimTransaction(
+  txSig: string,
+  purpose: ProcessedTxPurpose,
+  jobId: string | null = null
+): Promise<boolean> {
+  const rows = await query(
+    `INSERT INTO processed_txs (tx_sig, purpose, job_id)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (tx_sig) DO NOTHING
+     RETURNING tx_sig`,
+    [txSig, purpose, jobId]
+  );
+  return rows.length > 0;
+}
+
+// Give up a claim when the transaction was never accepted (e.g. it failed to
+// submit), so the same signed transaction can be retried
+export async function releaseTransaction(txSig: string, purpose: ProcessedTxPurpose): Promise<void> {
+  await query(
+    `DELETE FROM processed_txs WHERE tx_sig = $1 AND purpose = $2`,
+    [txSig, purpose]
+  );
+}
@@ -0,0 +1,25 @@
+import { query } from "../db/index.js";
+
+/**
+ * Atomically record a signed-request nonce for a wallet. Returns false if the
+ * wallet already used it, on any replica. As with processed_txs, the primary
+ * key makes the insert the check.
+ */
+export async function claimNonce(wallet: string, nonce: string, expiresAt: Date): Promise<boolean> {
+  const rows = await query(
+    `INSERT INTO request_nonces (wallet, nonce, expires_at)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (wallet, nonce) DO NOTHING
+     RETURNING nonce`,
+    [wallet, nonce, expiresAt]
+  );
+  return rows.length > 0;
+}
+
+// Drop nonces whose signatures are past the timestamp window and can't be replayed anyway
+export async function deleteExpiredNonces(): Promise<number> {
+  const rows = await query(
+    `DELETE FROM request_nonces WHERE expires_at < NOW() RETURNING nonce`
+  );
+  return rows.length;
+}
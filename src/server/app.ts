@@ -5,7 +5,12 @@ import { dirname, join } from "path";
 import jobsRouter from "./routes/jobs.js";
 import resultsRouter from "./routes/results.js";
 import adminRouter from "./routes/admin.js";
+import authRouter from "./routes/auth.js";
+import facilitatorRouter from "./routes/facilitator.js";
 import { wsHub } from "./websocket/hub.js";
+import { NETWORK } from "../config/network.js";
+import { DEFAULT_PAYMENT_TOKEN } from "../config/tokens.js";
+import { X402_EXPOSE_FACILITATOR } from "../config/constants.js";
 import { rateLimit, requestId, securityHeaders } from "./middleware/security.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -23,8 +28,14 @@ export function createApp(): Application {
   app.use(rateLimit());
 
   // Middleware
-  app.use(cors());
-  app.use(express.json());
+  // Let browser clients read x402 headers
+  app.use(cors({ exposedHeaders: ["X-PAYMENT-RESPONSE", "X-Payment-Required"] }));
+  app.use(express.json({
+    // Keep the raw body so signed requests can be verified byte-for-byte
+    verify: (req: Request, res: Response, buf: Buffer) => {
+      req.rawBody = buf;
+    },
+  }));
 
   // Request logging
   app.use((req: Request, res: Response, next: NextFunction) => {
@@ -58,23 +69,29 @@ export function createApp(): Application {
       version: "1.0.0",
       description: "Marketplace for bot-to-bot job execution with x402 payments",
       endpoints: {
+        auth: "/api/v1/auth",
         jobs: "/api/v1/jobs",
         results: "/api/v1/results/:jobId",
+        ...(X402_EXPOSE_FACILITATOR ? { facilitator: "/api/v1/facilitator" } : {}),
         websocket: "/ws",
         health: "/health",
       },
       x402: {
-        network: "solana-devnet",
-        asset: "USDC",
+        network: NETWORK.x402Network,
+        asset: DEFAULT_PAYMENT_TOKEN.symbol,
         scheme: "exact",
       },
     });
   });
 
   // API routes
+  app.use("/api/v1/auth", authRouter);
   app.use("/api/v1/jobs", jobsRouter);
   app.use("/api/v1/results", resultsRouter);
   app.use("/api/v1/admin", adminRouter);
+  if (X402_EXPOSE_FACILITATOR) {
+    app.use("/api/v1/facilitator", facilitatorRouter);
+  }
 
   // 404 handler - serve dashboard for non-API routes, JSON for API routes
   app.use((req: Request, res: Response) => {
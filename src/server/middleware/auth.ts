@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from "express";
+import { authService } from "../../services/auth-service.js";
+import { requireWalletSignature } from "./security.js";
+
+// Extract a session token from an "Authorization: Bearer <token>" header
+export function getBearerToken(req: Request): string | null {
+  const header = req.header("authorization");
+  if (!header?.startsWith("Bearer ")) {
+    return null;
+  }
+  const token = header.slice("Bearer ".length).trim();
+  return token || null;
+}
+
+/**
+ * Wallet authentication middleware
+ * Accepts a session token (Authorization: Bearer) or, failing that,
+ * a per-request wallet signature. Sets req.auth on success
+ */
+export function requireWalletAuth() {
+  const signatureAuth = requireWalletSignature();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = getBearerToken(req);
+
+    if (!token) {
+      return signatureAuth(req, res, next);
+    }
+
+    try {
+      const session = await authService.getSession(token);
+      if (!session) {
+        return res.status(401).json({ error: "Invalid or expired session token" });
+      }
+
+      req.auth = { wallet: session.wallet, method: "session" };
+      next();
+    } catch (error) {
+      console.error("Session lookup error:", error);
+      return res.status(500).json({ error: "Authentication failed" });
+    }
+  };
+}
@@ -1,4 +1,8 @@
 import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { verifyWalletSignature } from "../../solana/client.js";
+import { claimTransaction, releaseTransaction, ProcessedTxPurpose } from "../../models/processed-tx.js";
+import { claimNonce } from "../../models/request-nonce.js";
 
 // Rate limiting store (in-memory)
 const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
@@ -84,62 +88,145 @@ export function securityHeaders() {
 }
 
 /**
- * Solana signature validation types
- * NOTE: Full signature verification not implemented in this version
- * Payment verification relies on on-chain transaction verification instead
+ * Wallet signature authentication
+ * Clients prove control of a wallet by signing a canonical description of the
+ * request (method, path, body hash, timestamp, nonce) with its ed25519 key
  */
 export interface SignedRequest {
   wallet: string;
   signature: string;
   message: string;
   timestamp: number;
+  nonce: string;
 }
 
-// Signature validation is NOT used - payment is verified on-chain
-// Keeping interface for future wallet authentication if needed
+// Authenticated identity attached to the request
+export interface WalletAuth {
+  wallet: string;
+  method: "signature" | "session";
+}
 
-/**
- * Transaction replay protection
- * Prevents the same transaction from being used twice
- * Uses atomic check-and-set to prevent race conditions
- */
-const processedTransactions = new Set<string>();
-const txTimestamps = new Map<string, number>();
-const TX_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
-const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
-
-// Atomic check-and-mark operation
-// Returns true if transaction was already processed, false if newly marked
-export function checkAndMarkTransaction(txSig: string): { alreadyProcessed: boolean } {
-  if (processedTransactions.has(txSig)) {
-    return { alreadyProcessed: true };
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: WalletAuth;
+      rawBody?: Buffer;
+    }
   }
-  // Atomically add (JavaScript is single-threaded, so this is safe)
-  processedTransactions.add(txSig);
-  txTimestamps.set(txSig, Date.now());
-  return { alreadyProcessed: false };
 }
 
-// Legacy functions for backward compatibility
-export function isTransactionProcessed(txSig: string): boolean {
-  return processedTransactions.has(txSig);
-}
+const SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000; // 5 minutes either side
+const NONCE_MIN_LENGTH = 8;
+const NONCE_MAX_LENGTH = 64;
 
-export function markTransactionProcessed(txSig: string): void {
-  processedTransactions.add(txSig);
-  txTimestamps.set(txSig, Date.now());
+// Build the exact message a client must sign for a request
+export function buildSignedMessage(params: {
+  method: string;
+  path: string;
+  wallet: string;
+  timestamp: number;
+  nonce: string;
+  body?: Buffer | string;
+}): string {
+  const bodyHash = createHash("sha256").update(params.body || "").digest("hex");
+  return [
+    "AgentWork signed request",
+    `method: ${params.method.toUpperCase()}`,
+    `path: ${params.path}`,
+    `wallet: ${params.wallet}`,
+    `timestamp: ${params.timestamp}`,
+    `nonce: ${params.nonce}`,
+    `body: ${bodyHash}`,
+  ].join("\n");
 }
 
-// Periodic cleanup of expired transactions
-setInterval(() => {
-  const now = Date.now();
-  for (const [txSig, timestamp] of txTimestamps) {
-    if (now - timestamp > TX_EXPIRY_MS) {
-      processedTransactions.delete(txSig);
-      txTimestamps.delete(txSig);
+/**
+ * Wallet signature middleware
+ * Requires X-Wallet-Address, X-Wallet-Signature (base58), X-Wallet-Timestamp
+ * (ms since epoch) and X-Wallet-Nonce headers, and sets req.auth on success.
+ * Nonces are recorded in request_nonces, so a signed request can't be replayed
+ * against another replica or after a restart; the expiry sweep prunes them.
+ */
+export function requireWalletSignature() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const wallet = req.header("x-wallet-address");
+    const signature = req.header("x-wallet-signature");
+    const timestampHeader = req.header("x-wallet-timestamp");
+    const nonce = req.header("x-wallet-nonce");
+
+    if (!wallet || !signature || !timestampHeader || !nonce) {
+      return res.status(401).json({
+        error: "Wallet signature required",
+        message: "Include X-Wallet-Address, X-Wallet-Signature, X-Wallet-Timestamp and X-Wallet-Nonce headers",
+      });
     }
-  }
-}, CLEANUP_INTERVAL_MS);
+
+    if (nonce.length < NONCE_MIN_LENGTH || nonce.length > NONCE_MAX_LENGTH) {
+      return res.status(401).json({ error: "Invalid nonce" });
+    }
+
+    const timestamp = Number(timestampHeader);
+    const now = Date.now();
+    if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > SIGNATURE_MAX_SKEW_MS) {
+      logSecurityEvent("signature_stale", { wallet, path: req.originalUrl });
+      return res.status(401).json({ error: "Signature timestamp outside allowed window" });
+    }
+
+    const signed: SignedRequest = {
+      wallet,
+      signature,
+      timestamp,
+      nonce,
+      message: buildSignedMessage({
+        method: req.method,
+        path: req.originalUrl,
+        wallet,
+        timestamp,
+        nonce,
+        body: req.rawBody,
+      }),
+    };
+
+    if (!verifyWalletSignature(signed.wallet, signed.message, signed.signature)) {
+      logSecurityEvent("signature_invalid", { wallet, path: req.originalUrl });
+      return res.status(401).json({ error: "Invalid wallet signature" });
+    }
+
+    let fresh: boolean;
+    try {
+      fresh = await claimNonce(wallet, nonce, new Date(timestamp + SIGNATURE_MAX_SKEW_MS));
+    } catch (error) {
+      console.error("Error recording request nonce:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!fresh) {
+      logSecurityEvent("signature_replay_attempt", { wallet, path: req.originalUrl });
+      return res.status(401).json({ error: "Nonce already used" });
+    }
+
+    req.auth = { wallet, method: "signature" };
+    next();
+  };
+}
+
+/**
+ * Transaction replay protection
+ * Prevents the same transaction from being used twice, across restarts and
+ * replicas. Backed by the processed_txs table; the insert is the check.
+ */
+export async function checkAndMarkTransaction(
+  txSig: string,
+  purpose: ProcessedTxPurpose,
+  jobId?: string
+): Promise<{ alreadyProcessed: boolean }> {
+  const claimed = await claimTransaction(txSig, purpose, jobId ?? null);
+  return { alreadyProcessed: !claimed };
+}
+
+// Undo a mark for a transaction that was never accepted, so it can be retried
+export async function unmarkTransaction(txSig: string, purpose: ProcessedTxPurpose): Promise<void> {
+  await releaseTransaction(txSig, purpose);
+}
 
 /**
  * Sanitize user input
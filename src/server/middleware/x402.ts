@@ -1,8 +1,20 @@
 import { Request, Response, NextFunction } from "express";
 import { jobService } from "../../services/job-service.js";
-import { paymentService } from "../../services/payment-service.js";
-import { JobStatus } from "../../config/constants.js";
-import { checkAndMarkTransaction, logSecurityEvent } from "./security.js";
+import {
+  paymentService,
+  X402Payment,
+  X402PaymentRequirements,
+  X402PaymentResponse,
+} from "../../services/payment-service.js";
+import { Job, jobToken } from "../../models/job.js";
+import {
+  JobStatus,
+  SettlementMode,
+  X402_ASYNC_SETTLEMENT,
+  X402_LEGACY_COMPAT,
+} from "../../config/constants.js";
+import { wsHub } from "../websocket/hub.js";
+import { checkAndMarkTransaction, unmarkTransaction, logSecurityEvent } from "./security.js";
 
 // Extend Express Request to include payment info
 declare global {
@@ -11,121 +23,235 @@ declare global {
       payment?: {
         txSig: string;
         verified: boolean;
+        settlement: "confirmed" | "pending";
       };
     }
   }
 }
 
-// x402 middleware for paywalled endpoints
+/**
+ * Settle a verified payment; the job is marked paid once the funds have
+ * landed. The caller holds the job's settlement claim (jobs.settling_tx_sig).
+ * It is released, and the signature freed for a retry, only when the payment
+ * is known never to have been submitted. When the outcome is unknown (the
+ * facilitator threw, or submitted without confirming), the claim stays and
+ * paymentService.recoverSettlements() resolves it from the chain.
+ */
+async function settle(
+  jobId: string,
+  job: Job,
+  payment: X402Payment,
+  paymentSig: string,
+  requirements: X402PaymentRequirements
+): Promise<X402PaymentResponse | null> {
+  let result: X402PaymentResponse;
+  try {
+    result = await paymentService.settlePayment(payment, requirements, jobId);
+  } catch (error) {
+    console.error(`Payment settlement for job ${jobId} ended without an outcome - left for recovery:`, error);
+    logSecurityEvent("payment_settlement_unknown", { jobId, txSig: paymentSig });
+    return null;
+  }
+
+  if (!result.success) {
+    logSecurityEvent("payment_settlement_failed", { jobId, txSig: result.txSig || paymentSig, reason: result.reason });
+    // Never submitted: the job and the signed transaction may be used again
+    if (!result.txSig) {
+      await jobService.releasePaymentSettlement(jobId, paymentSig).catch(() => {});
+      await unmarkTransaction(paymentSig, "x402").catch(() => {});
+    }
+    return result;
+  }
+
+  try {
+    logSecurityEvent("payment_success", {
+      jobId,
+      txSig: result.txSig,
+      amount: job.bountyAtomic.toString(),
+      worker: job.workerWallet,
+    });
+
+    const paidJob = await jobService.markPaid(jobId, result.txSig);
+    if (paidJob) {
+      wsHub.broadcastJobPaid(paidJob);
+    } else {
+      console.error(`Job ${jobId} settled x402 payment ${result.txSig} but could not be marked paid`);
+    }
+  } catch (error) {
+    // The payment landed; the claim stays and recovery marks the job paid
+    console.error(`Job ${jobId} settled x402 payment ${result.txSig} but could not be marked paid - left for recovery:`, error);
+  }
+  return result;
+}
+
+// x402 middleware for paywalled endpoints. The payment is verified through the
+// facilitator before anything is served; with X402_ASYNC_SETTLEMENT the result
+// is served right away and settlement finishes in the background.
+// Mount it after requireWalletAuth: only the requester of a pay-on-delivery job
+// is charged. Everyone else falls through to the route, which authorizes them.
 export function x402Paywall() {
   return async (req: Request<{ jobId: string }>, res: Response, next: NextFunction) => {
     const jobId = req.params.jobId;
 
     // Get job details
-    const job = await jobService.get(jobId);
+    let job: Job | null;
+    try {
+      job = await jobService.get(jobId);
+    } catch (error) {
+      console.error("Error loading job for payment:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
     if (!job) {
       return res.status(404).json({ error: "Job not found" });
     }
 
-    // Check if job has a result
-    if (job.status !== JobStatus.COMPLETED && job.status !== JobStatus.PAID) {
-      return res.status(400).json({
-        error: "Job result not available",
-        status: job.status,
-      });
+    // Escrow-funded jobs are paid by approval, never through the paywall
+    if (job.settlementMode !== SettlementMode.X402) {
+      return next();
+    }
+
+    if (req.auth?.wallet !== job.requesterWallet) {
+      return next();
     }
 
-    // If already paid, allow access
-    if (job.status === JobStatus.PAID) {
+    // Already paid, or no result to pay for yet (the route reports which)
+    if (job.status !== JobStatus.UNDER_REVIEW && job.status !== JobStatus.COMPLETED) {
       return next();
     }
 
-    // Check for X-Payment header
+    if (job.settlingTxSig) {
+      return res.status(409).json({
+        error: "Payment settlement in progress",
+        message: "A payment for this job is being settled; retry shortly",
+      });
+    }
+
+    const token = jobToken(job);
+    if (!token) {
+      return res.status(409).json({ error: "Bounty mint is no longer an accepted payment token" });
+    }
+
+    const requirements = paymentService.getPaymentRequirements(
+      job.workerWallet!,
+      job.bountyAtomic,
+      {
+        url: `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+        description: `Result for job "${job.title}"`,
+      },
+      token
+    );
+
+    // Check for X-PAYMENT header (header names are case-insensitive)
     const paymentHeader = req.headers["x-payment"] as string | undefined;
 
     if (!paymentHeader) {
-      // Return 402 Payment Required
-      const paymentRequired = paymentService.generatePaymentRequired(
-        job.workerWallet!,
-        job.bountyAtomic
-      );
+      // Return 402 Payment Required with x402 v1 payment requirements
+      const paymentRequired = paymentService.generatePaymentRequired(requirements);
 
       res.status(402);
-      res.setHeader(
-        "X-Payment-Required",
-        paymentService.encodePaymentRequired(paymentRequired)
-      );
-      return res.json({
-        error: "Payment required",
-        message: "Include X-Payment header with signed USDC transfer",
-        paymentDetails: paymentRequired,
-      });
+      if (X402_LEGACY_COMPAT) {
+        res.setHeader(
+          "X-Payment-Required",
+          paymentService.encodePaymentRequired(paymentRequired)
+        );
+      }
+      return res.json(paymentRequired);
     }
 
     // Parse and verify payment
     const payment = paymentService.parsePaymentHeader(paymentHeader);
     if (!payment) {
       return res.status(400).json({
-        error: "Invalid X-Payment header",
-        message: "Header must be base64-encoded JSON with serializedTransaction",
+        error: "Invalid X-PAYMENT header",
+        message: "Header must be a base64-encoded x402 v1 payload: {x402Version: 1, scheme: \"exact\", network, payload: {transaction}}",
       });
     }
 
-    try {
-      // Verify and submit the payment
-      const result = await paymentService.verifyAndSubmitPayment(
-        payment,
-        job.workerWallet!,
-        job.bountyAtomic,
-        jobId // Pass jobId for earnings tracking
-      );
-
-      if (!result.success) {
-        logSecurityEvent("payment_verification_failed", { jobId, txSig: result.txSig });
-        return res.status(402).json({
-          error: "Payment verification failed",
-          message: "Transaction did not transfer correct amount to worker",
-        });
-      }
+    const paymentSig = paymentService.getPaymentSignature(payment);
+    if (!paymentSig) {
+      return res.status(400).json({
+        error: "Invalid X-PAYMENT header",
+        message: "Transaction must be signed by the payer",
+      });
+    }
 
-      // Atomic check for transaction replay attack
-      const { alreadyProcessed } = checkAndMarkTransaction(result.txSig);
+    let payer: string | null = null;
+    try {
+      // Atomic check for transaction replay attack, before anything is submitted
+      const { alreadyProcessed } = await checkAndMarkTransaction(paymentSig, "x402", jobId);
       if (alreadyProcessed) {
-        logSecurityEvent("transaction_replay_attempt", { jobId, txSig: result.txSig });
+        logSecurityEvent("transaction_replay_attempt", { jobId, txSig: paymentSig });
         return res.status(400).json({
           error: "Transaction already processed"
         });
       }
 
-      // Log successful payment
-      logSecurityEvent("payment_success", {
-        jobId,
-        txSig: result.txSig,
-        amount: job.bountyAtomic.toString(),
-        worker: job.workerWallet,
-      });
+      // Verify before serving or submitting anything
+      const verification = await paymentService.verifyPayment(payment, requirements);
+      if (!verification.isValid) {
+        logSecurityEvent("payment_verification_failed", { jobId, txSig: paymentSig, reason: verification.invalidReason });
+        await unmarkTransaction(paymentSig, "x402").catch(() => {});
+        return res.status(402).json(
+          paymentService.generatePaymentRequired(
+            requirements,
+            verification.invalidReason || "Payment verification failed"
+          )
+        );
+      }
+      payer = verification.payer;
 
-      // Mark job as paid
-      await jobService.markPaid(jobId, result.txSig);
+      // One payment per job at a time, across replicas
+      if (!await jobService.claimPaymentSettlement(jobId, paymentSig)) {
+        await unmarkTransaction(paymentSig, "x402").catch(() => {});
+        return res.status(409).json({
+          error: "Payment settlement in progress",
+          message: "A payment for this job is being settled; retry shortly",
+        });
+      }
+    } catch (error) {
+      console.error("Payment verification error:", error);
+      await unmarkTransaction(paymentSig, "x402").catch(() => {});
+      return res.status(500).json({
+        error: "Payment processing failed"
+      });
+    }
 
-      // Add payment info to request
-      req.payment = {
-        txSig: result.txSig,
-        verified: true,
-      };
+    const settlement = settle(jobId, job, payment, paymentSig, requirements);
 
-      // Set response header with payment confirmation
+    if (X402_ASYNC_SETTLEMENT) {
+      req.payment = { txSig: paymentSig, verified: true, settlement: "pending" };
       res.setHeader(
-        "X-Payment-Response",
-        paymentService.encodePaymentResponse(result)
+        "X-PAYMENT-RESPONSE",
+        paymentService.encodePaymentResponse(
+          { txSig: paymentSig, success: true, payer: payer ?? undefined },
+          payment.format
+        )
       );
+      return next();
+    }
 
-      next();
-    } catch (error) {
-      console.error("Payment processing error:", error);
+    const result = await settlement;
+    if (!result) {
       return res.status(500).json({
-        error: "Payment processing failed"
+        error: "Payment processing failed",
+        message: "The payment's outcome is unknown; the job is marked paid if it lands, otherwise it can be paid again in a few minutes",
       });
     }
+
+    // Set response header with payment confirmation (or the settlement failure)
+    res.setHeader(
+      "X-PAYMENT-RESPONSE",
+      paymentService.encodePaymentResponse(result, payment.format)
+    );
+
+    if (!result.success) {
+      return res.status(402).json({
+        error: "Payment verification failed",
+        message: result.reason || "Transaction did not transfer correct amount to worker",
+      });
+    }
+
+    req.payment = { txSig: result.txSig, verified: true, settlement: "confirmed" };
+    next();
   };
 }
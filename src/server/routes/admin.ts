@@ -1,11 +1,36 @@
 import { Router, Request, Response, NextFunction } from "express";
+import { ZodError } from "zod";
 import { paymentService } from "../../services/payment-service.js";
 import { jobService } from "../../services/job-service.js";
 import { escrowService } from "../../services/escrow-service.js";
-import { atomicToUsdc, JobStatus } from "../../config/constants.js";
+import { disputeService } from "../../services/dispute-service.js";
+import { reconciliationService } from "../../services/reconciliation-service.js";
+import { ledgerService } from "../../services/ledger-service.js";
+import { walletAccount } from "../../models/ledger.js";
+import { ResolveDisputeSchema } from "../../models/dispute.js";
+import { fromAtomicUnits, JobStatus, RECONCILIATION_SIGNATURE_LIMIT, ESCROW_SOL_RESERVE_LAMPORTS } from "../../config/constants.js";
+import { getPaymentToken, PAYMENT_TOKENS } from "../../config/tokens.js";
+import { NETWORK, explorerTxUrl } from "../../config/network.js";
+import { rpcPool } from "../../solana/rpc-pool.js";
 
 const router = Router();
 
+// An atomic amount with its mint, in whole tokens when the mint is still configured
+function tokenAmount(atomic: bigint, mint: string): { mint: string; symbol: string | null; amount: number | null; atomic: string } {
+  let token = null;
+  try {
+    token = getPaymentToken(mint);
+  } catch {
+    // Dropped from PAYMENT_MINTS; decimals unknown
+  }
+  return {
+    mint,
+    symbol: token?.symbol ?? null,
+    amount: token ? fromAtomicUnits(atomic, token.decimals) : null,
+    atomic: atomic.toString(),
+  };
+}
+
 const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
 const ADMIN_ALLOWED_IPS = process.env.ADMIN_ALLOWED_IPS?.split(",").map(ip => ip.trim()).filter(Boolean) || [];
 
@@ -45,14 +70,15 @@ router.use(requireAdminAuth);
 router.get("/stats", async (req: Request, res: Response) => {
   try {
     const jobs = await jobService.list();
-    const earnings = paymentService.getPlatformEarnings();
+    const earnings = await paymentService.getPlatformEarnings();
     const feeInfo = paymentService.getFeeInfo();
 
     const totalJobs = jobs.length;
     const paidJobs = jobs.filter((j) => j.status === "paid").length;
-    const totalVolume = jobs
-      .filter((j) => j.status === "paid")
-      .reduce((sum, j) => sum + j.bountyAtomic, 0n);
+    const volumeByMint = new Map<string, bigint>();
+    for (const job of jobs.filter((j) => j.status === "paid")) {
+      volumeByMint.set(job.bountyMint, (volumeByMint.get(job.bountyMint) ?? 0n) + job.bountyAtomic);
+    }
 
     res.json({
       success: true,
@@ -66,14 +92,15 @@ router.get("/stats", async (req: Request, res: Response) => {
         openJobs: jobs.filter((j) => j.status === "open").length,
         claimedJobs: jobs.filter((j) => j.status === "claimed").length,
         completedJobs: jobs.filter((j) => j.status === "completed").length,
+        underReviewJobs: jobs.filter((j) => j.status === "under_review").length,
+        rejectedJobs: jobs.filter((j) => j.status === "rejected").length,
       },
+      // Per mint: amounts in different tokens are never added together
       volume: {
-        totalAtomic: totalVolume.toString(),
-        totalUsdc: atomicToUsdc(totalVolume),
+        byMint: [...volumeByMint].map(([mint, atomic]) => tokenAmount(atomic, mint)),
       },
       earnings: {
-        totalAtomic: earnings.total.toString(),
-        totalUsdc: atomicToUsdc(earnings.total),
+        byMint: earnings.byMint.map((totals) => tokenAmount(totals.total, totals.mint)),
         transactionCount: earnings.count,
       },
     });
@@ -83,25 +110,50 @@ router.get("/stats", async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/v1/admin/earnings
+// Parse an optional ISO date query param; undefined if absent, null if invalid
+function parseDateParam(value: unknown): Date | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/v1/admin/earnings - Collected fees (?from=&to= ISO dates, ?jobId=)
 router.get("/earnings", async (req: Request, res: Response) => {
   try {
-    const earnings = paymentService.getPlatformEarnings();
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: "Invalid date - use ISO 8601 for from/to" });
+    }
+
+    const jobId = req.query.jobId as string | undefined;
+    const earnings = await paymentService.getPlatformEarnings({ jobId, from, to });
 
     res.json({
       success: true,
-      total: {
-        atomic: earnings.total.toString(),
-        usdc: atomicToUsdc(earnings.total),
+      filter: {
+        jobId: jobId || null,
+        from: from || null,
+        to: to || null,
       },
+      byMint: earnings.byMint.map((totals) => ({
+        total: tokenAmount(totals.total, totals.mint),
+        bySource: {
+          x402: tokenAmount(totals.bySource.x402, totals.mint),
+          escrow: tokenAmount(totals.bySource.escrow, totals.mint),
+        },
+        count: totals.count,
+      })),
       count: earnings.count,
       transactions: earnings.transactions.map((t) => ({
         jobId: t.jobId,
-        amount: atomicToUsdc(t.amount),
-        amountAtomic: t.amount.toString(),
+        source: t.source,
+        mint: t.mint,
+        amount: tokenAmount(t.amountAtomic, t.mint).amount,
+        amountAtomic: t.amountAtomic.toString(),
         txSig: t.txSig,
-        timestamp: t.timestamp,
-        explorer: `https://explorer.solana.com/tx/${t.txSig}?cluster=devnet`,
+        timestamp: t.createdAt,
+        explorer: explorerTxUrl(t.txSig),
       })),
     });
   } catch (error) {
@@ -131,7 +183,11 @@ router.get("/results", async (req: Request, res: Response) => {
   try {
     const jobs = await jobService.list();
     const completedJobs = jobs.filter(
-      (j) => j.status === JobStatus.COMPLETED || j.status === JobStatus.PAID
+      (j) =>
+        j.status === JobStatus.COMPLETED ||
+        j.status === JobStatus.UNDER_REVIEW ||
+        j.status === JobStatus.REJECTED ||
+        j.status === JobStatus.PAID
     );
 
     const results = await Promise.all(completedJobs.map(async (job) => {
@@ -140,7 +196,8 @@ router.get("/results", async (req: Request, res: Response) => {
         jobId: job.id,
         title: job.title,
         status: job.status,
-        bountyUsdc: job.bountyUsdc,
+        bountyAmount: job.bountyAmount,
+        bountyMint: job.bountyMint,
         worker: job.workerWallet,
         completedAt: job.completedAt,
         paidAt: job.paidAt,
@@ -178,7 +235,8 @@ router.get("/results/:jobId", async (req: Request<{ jobId: string }>, res: Respo
         title: job.title,
         description: job.description,
         status: job.status,
-        bountyUsdc: job.bountyUsdc,
+        bountyAmount: job.bountyAmount,
+        bountyMint: job.bountyMint,
         requester: job.requesterWallet,
         worker: job.workerWallet,
         createdAt: job.createdAt,
@@ -208,7 +266,8 @@ router.get("/jobs", async (req: Request, res: Response) => {
         title: job.title,
         description: job.description,
         status: job.status,
-        bountyUsdc: job.bountyUsdc,
+        bountyAmount: job.bountyAmount,
+        bountyMint: job.bountyMint,
         requester: job.requesterWallet,
         worker: job.workerWallet,
         tags: job.tags,
@@ -224,26 +283,138 @@ router.get("/jobs", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/v1/admin/abandonments - Claims that timed out (filter by ?jobId= or ?wallet=)
+router.get("/abandonments", async (req: Request, res: Response) => {
+  try {
+    const abandonments = await jobService.listAbandonments({
+      jobId: req.query.jobId as string | undefined,
+      workerWallet: req.query.wallet as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      count: abandonments.length,
+      abandonments,
+    });
+  } catch (error) {
+    console.error("Error fetching abandonments:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/v1/admin/disputes - List disputes (?status=open|resolved)
+router.get("/disputes", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && status !== "open" && status !== "resolved") {
+      return res.status(400).json({ error: "Invalid status filter" });
+    }
+
+    const disputes = await disputeService.list(status as "open" | "resolved" | undefined);
+
+    res.json({
+      success: true,
+      count: disputes.length,
+      disputes,
+    });
+  } catch (error) {
+    console.error("Error fetching disputes:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/v1/admin/disputes/:id
+router.get("/disputes/:id", async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const dispute = await disputeService.get(req.params.id);
+    if (!dispute) {
+      return res.status(404).json({ error: "Dispute not found" });
+    }
+
+    const job = await jobService.get(dispute.jobId);
+    const result = await jobService.getResult(dispute.jobId);
+    const escrow = await escrowService.getEscrow(dispute.jobId);
+
+    res.json({
+      success: true,
+      dispute,
+      job: job ? jobService.serialize(job) : null,
+      result: result?.result || null,
+      escrow: escrow
+        ? {
+            status: escrow.status,
+            mint: escrow.mint,
+            amount: tokenAmount(escrow.amountAtomic, escrow.mint).amount,
+            amountAtomic: escrow.amountAtomic.toString(),
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("Error fetching dispute:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/v1/admin/disputes/:id/resolve - Release, refund or split the frozen escrow
+router.post("/disputes/:id/resolve", async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const input = ResolveDisputeSchema.parse(req.body);
+    const { dispute, job } = await disputeService.resolve(req.params.id, input);
+
+    res.json({
+      success: true,
+      dispute,
+      job: jobService.serialize(job),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        fields: error.errors.map(e => e.path.join(".")),
+      });
+    }
+    const message = error instanceof Error ? error.message : "Request failed";
+    console.error("Error resolving dispute:", message);
+    res.status(message.startsWith("Resolution payout") ? 500 : 400).json({ error: message });
+  }
+});
+
 // GET /api/v1/admin/escrow
 router.get("/escrow", async (req: Request, res: Response) => {
   try {
     const records = await escrowService.getAllRecords();
-    const totalHeld = await escrowService.getTotalHeld();
+    const mints = [...new Set([...PAYMENT_TOKENS.map((t) => t.mint.toBase58()), ...records.map((r) => r.mint)])];
+    const totalHeld = await Promise.all(
+      mints.map(async (mint) => tokenAmount(await escrowService.getTotalHeld(mint), mint))
+    );
+    // SOL the escrow wallet has for fees and rent beyond escrowed SOL and the reserve
+    const solReserve = escrowService.getEscrowWallet()
+      ? await escrowService.getSpendableReserve()
+      : null;
 
     res.json({
       success: true,
       escrow: {
         walletConfigured: !!escrowService.getEscrowWallet(),
         operational: escrowService.isOperational(),
-        totalHeld: atomicToUsdc(totalHeld),
-        totalHeldAtomic: totalHeld.toString(),
+        totalHeld,
+        solReserve: solReserve && {
+          balanceLamports: solReserve.balance.toString(),
+          heldLamports: solReserve.held.toString(),
+          reserveLamports: ESCROW_SOL_RESERVE_LAMPORTS.toString(),
+          spendableLamports: solReserve.spendable.toString(),
+        },
       },
       records: records.map(r => ({
         jobId: r.jobId,
-        amountUsdc: atomicToUsdc(r.amountAtomic),
+        mint: r.mint,
+        amount: tokenAmount(r.amountAtomic, r.mint).amount,
+        amountAtomic: r.amountAtomic.toString(),
         status: r.status,
         depositVerifiedAt: r.depositVerifiedAt,
         releasedAt: r.releasedAt,
+        releaseTxSig: r.releaseTxSig,
+        settlement: r.settlement,
       })),
     });
   } catch (error) {
@@ -252,4 +423,82 @@ router.get("/escrow", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/v1/admin/ledger - Account balances, invariant check and recent entries
+// Filter with ?wallet=<address>, ?account=escrow|platform_fees, ?jobId=, ?limit=
+router.get("/ledger", async (req: Request, res: Response) => {
+  try {
+    const wallet = req.query.wallet as string | undefined;
+    const account = wallet ? walletAccount(wallet) : (req.query.account as string | undefined);
+    const jobId = req.query.jobId as string | undefined;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 1000);
+
+    const [balances, entries, invariants] = await Promise.all([
+      ledgerService.getBalances(account),
+      ledgerService.getEntries({ account, jobId, limit }),
+      ledgerService.checkInvariants(),
+    ]);
+
+    res.json({
+      success: true,
+      invariants,
+      balances: balances.map((b) => ({
+        account: b.account,
+        mint: b.mint,
+        balance: tokenAmount(b.balanceAtomic, b.mint).amount,
+        balanceAtomic: b.balanceAtomic.toString(),
+        entryCount: b.entryCount,
+      })),
+      entries: entries.map((e) => ({
+        id: e.id,
+        transactionId: e.transactionId,
+        kind: e.kind,
+        jobId: e.jobId,
+        txSig: e.txSig,
+        account: e.account,
+        mint: e.mint,
+        amount: tokenAmount(e.amountAtomic, e.mint).amount,
+        amountAtomic: e.amountAtomic.toString(),
+        createdAt: e.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching ledger:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/v1/admin/reconciliation - Compare escrow records with the escrow token account
+// ?cached=true returns the last scheduled run instead of checking now; ?limit= caps signatures scanned
+router.get("/reconciliation", async (req: Request, res: Response) => {
+  try {
+    if (req.query.cached === "true") {
+      const last = reconciliationService.getLastReport();
+      if (!last) {
+        return res.status(404).json({ error: "No reconciliation run yet" });
+      }
+      return res.json({ success: true, report: last });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || RECONCILIATION_SIGNATURE_LIMIT, 1), 1000);
+    const report = await reconciliationService.run(limit);
+
+    res.status(report.error ? 502 : 200).json({
+      success: !report.error,
+      report,
+    });
+  } catch (error) {
+    console.error("Error running reconciliation:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/v1/admin/rpc - RPC endpoint health and what each endpoint has served
+router.get("/rpc", (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    network: NETWORK.name,
+    endpoints: rpcPool.getMetrics(),
+  });
+});
+
 export default router;
@@ -0,0 +1,146 @@
+import { Router, Request, Response } from "express";
+import { z, ZodError } from "zod";
+import { authService } from "../../services/auth-service.js";
+import { SESSION_TTL_MINUTES } from "../../config/constants.js";
+import { getBearerToken, requireWalletAuth } from "../middleware/auth.js";
+import { logSecurityEvent } from "../middleware/security.js";
+
+const router = Router();
+
+const ChallengeSchema = z.object({
+  wallet: z.string().min(32).max(44),
+});
+
+const VerifySchema = z.object({
+  wallet: z.string().min(32).max(44),
+  nonce: z.string().min(1).max(64),
+  signature: z.string().min(64).max(100),
+});
+
+const RevokeSchema = z.object({
+  all: z.boolean().optional().default(false),
+});
+
+function sanitizeError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return "Invalid request data";
+  }
+  if (error instanceof Error) {
+    const safeMessages = [
+      "Invalid wallet address",
+      "Challenge not found",
+      "Challenge expired",
+      "Invalid signature",
+    ];
+    if (safeMessages.some(msg => error.message.includes(msg))) {
+      return error.message;
+    }
+  }
+  return "Request failed";
+}
+
+// POST /api/v1/auth/challenge - Get a message to sign
+router.post("/challenge", async (req: Request, res: Response) => {
+  try {
+    const { wallet } = ChallengeSchema.parse(req.body);
+    const challenge = await authService.createChallenge(wallet, req.get("host") || "agentwork");
+
+    res.json({
+      success: true,
+      challenge: {
+        wallet: challenge.wallet,
+        nonce: challenge.nonce,
+        message: challenge.message,
+        expiresAt: challenge.expiresAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError || (error instanceof Error && error.message === "Invalid wallet address")) {
+      return res.status(400).json({ error: sanitizeError(error) });
+    }
+    console.error("Challenge error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/v1/auth/verify - Exchange a signed challenge for a session token
+router.post("/verify", async (req: Request, res: Response) => {
+  try {
+    const { wallet, nonce, signature } = VerifySchema.parse(req.body);
+    const { token, session } = await authService.verifyChallenge(wallet, nonce, signature);
+
+    logSecurityEvent("session_created", { wallet, sessionId: session.id });
+
+    res.json({
+      success: true,
+      token,
+      tokenType: "Bearer",
+      wallet: session.wallet,
+      expiresAt: session.expiresAt,
+      expiresInSeconds: SESSION_TTL_MINUTES * 60,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: sanitizeError(error) });
+    }
+    logSecurityEvent("session_verify_failed", { wallet: req.body?.wallet });
+    return res.status(401).json({ error: sanitizeError(error) });
+  }
+});
+
+// POST /api/v1/auth/refresh - Rotate the current session token
+router.post("/refresh", async (req: Request, res: Response) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ error: "Session token required" });
+  }
+
+  try {
+    const refreshed = await authService.refresh(token);
+    if (!refreshed) {
+      return res.status(401).json({ error: "Invalid or expired session token" });
+    }
+
+    res.json({
+      success: true,
+      token: refreshed.token,
+      tokenType: "Bearer",
+      wallet: refreshed.session.wallet,
+      expiresAt: refreshed.session.expiresAt,
+      expiresInSeconds: SESSION_TTL_MINUTES * 60,
+    });
+  } catch (error) {
+    console.error("Session refresh error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/v1/auth/revoke - Revoke the current token (or every token for the wallet)
+router.post("/revoke", requireWalletAuth(), async (req: Request, res: Response) => {
+  try {
+    const { all } = RevokeSchema.parse(req.body ?? {});
+    const token = getBearerToken(req);
+
+    let revoked = 0;
+    if (all) {
+      revoked = await authService.revokeAllForWallet(req.auth!.wallet);
+    } else if (token) {
+      revoked = (await authService.revoke(token)) ? 1 : 0;
+    }
+
+    logSecurityEvent("session_revoked", { wallet: req.auth!.wallet, count: revoked });
+
+    res.json({
+      success: true,
+      revoked,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: sanitizeError(error) });
+    }
+    console.error("Session revoke error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
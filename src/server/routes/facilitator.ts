@@ -0,0 +1,74 @@
+import { Router, Request, Response } from "express";
+import { z, ZodError } from "zod";
+import { localFacilitator } from "../../services/facilitator.js";
+import { X402_VERSION } from "../../config/constants.js";
+import { NETWORK } from "../../config/network.js";
+
+const router = Router();
+
+const PaymentPayloadSchema = z.object({
+  x402Version: z.literal(X402_VERSION),
+  scheme: z.literal("exact"),
+  network: z.string().min(1),
+  payload: z.object({
+    transaction: z.string().min(1),
+  }),
+});
+
+const PaymentRequirementsSchema = z.object({
+  scheme: z.literal("exact"),
+  network: z.string().min(1),
+  maxAmountRequired: z.string().regex(/^\d+$/),
+  resource: z.string(),
+  description: z.string(),
+  mimeType: z.string(),
+  outputSchema: z.record(z.unknown()).nullable().optional(),
+  payTo: z.string().min(32).max(44),
+  maxTimeoutSeconds: z.number().int().positive(),
+  asset: z.string().min(32).max(44),
+  extra: z.record(z.unknown()).nullable(),
+});
+
+const FacilitatorRequestSchema = z.object({
+  x402Version: z.literal(X402_VERSION),
+  paymentPayload: PaymentPayloadSchema,
+  paymentRequirements: PaymentRequirementsSchema,
+});
+
+function sanitizeError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return "Invalid request data";
+  }
+  return "Request failed";
+}
+
+// GET /api/v1/facilitator/supported - Payment kinds this facilitator handles
+router.get("/supported", (req: Request, res: Response) => {
+  res.json({
+    kinds: [{ x402Version: X402_VERSION, scheme: "exact", network: NETWORK.x402Network }],
+  });
+});
+
+// POST /api/v1/facilitator/verify - Check a payment without submitting it
+router.post("/verify", async (req: Request, res: Response) => {
+  try {
+    const { paymentPayload, paymentRequirements } = FacilitatorRequestSchema.parse(req.body);
+    res.json(await localFacilitator.verify(paymentPayload, paymentRequirements));
+  } catch (error) {
+    const status = error instanceof ZodError ? 400 : 500;
+    return res.status(status).json({ error: sanitizeError(error) });
+  }
+});
+
+// POST /api/v1/facilitator/settle - Submit a payment and report the transaction
+router.post("/settle", async (req: Request, res: Response) => {
+  try {
+    const { paymentPayload, paymentRequirements } = FacilitatorRequestSchema.parse(req.body);
+    res.json(await localFacilitator.settle(paymentPayload, paymentRequirements));
+  } catch (error) {
+    const status = error instanceof ZodError ? 400 : 500;
+    return res.status(status).json({ error: sanitizeError(error) });
+  }
+});
+
+export default router;
@@ -1,11 +1,17 @@
 import { Router, Request, Response } from "express";
 import { createHash } from "crypto";
 import { z, ZodError } from "zod";
+import QRCode from "qrcode";
 import { jobService } from "../../services/job-service.js";
 import { escrowService } from "../../services/escrow-service.js";
-import { CreateJobSchema, ClaimJobSchema, CompleteJobSchema } from "../../models/job.js";
-import { JobStatus, USDC_MINT_DEVNET } from "../../config/constants.js";
+import { disputeService } from "../../services/dispute-service.js";
+import { OpenDisputeSchema } from "../../models/dispute.js";
+import { CreateJobSchema, ClaimJobSchema, CompleteJobSchema, RejectJobSchema, jobToken } from "../../models/job.js";
+import { JobStatus, SettlementMode, DISPUTE_WINDOW_HOURS } from "../../config/constants.js";
+import { NETWORK } from "../../config/network.js";
+import { PAYMENT_TOKENS, DEFAULT_PAYMENT_TOKEN, serializePaymentToken, isNativeSol } from "../../config/tokens.js";
 import { wsHub } from "../websocket/hub.js";
+import { requireWalletAuth } from "../middleware/auth.js";
 
 function hashResult(result: string): string {
   return createHash("sha256").update(result).digest("hex");
@@ -13,7 +19,7 @@ function hashResult(result: string): string {
 
 const router = Router();
 
-const VALID_STATUSES = ["pending_deposit", "open", "claimed", "completed", "paid", "cancelled", "expired"];
+const VALID_STATUSES = ["pending_deposit", "open", "claimed", "completed", "under_review", "rejected", "disputed", "paid", "settled", "cancelled", "expired"];
 
 const VerifyDepositSchema = z.object({
   depositTxSig: z.string().min(80).max(100),
@@ -23,6 +29,15 @@ const CancelJobSchema = z.object({
   requesterWallet: z.string().min(32).max(44),
 });
 
+// Wallet fields in the body are optional; when present they must match the authenticated wallet
+function authenticatedWallet(req: Request, bodyWallet: unknown): string | null {
+  const wallet = req.auth!.wallet;
+  if (bodyWallet !== undefined && bodyWallet !== wallet) {
+    return null;
+  }
+  return wallet;
+}
+
 function sanitizeError(error: unknown): string {
   if (error instanceof ZodError) {
     return "Invalid request data";
@@ -38,6 +53,23 @@ function sanitizeError(error: unknown): string {
       "Only requester can cancel",
       "Job cannot be cancelled",
       "Job not pending deposit",
+      "Job has expired",
+      "Claim deadline has passed",
+      "Only requester can approve",
+      "Only requester can reject",
+      "Job not under review",
+      "Payment release failed",
+      "Payment release in progress",
+      "Only requester or worker can dispute",
+      "Dispute already open",
+      "Dispute response already submitted",
+      "Job cannot be disputed",
+      "Dispute window has closed",
+      "Escrow not held for this job",
+      "Job is pay-on-delivery",
+      "is not in PAYMENT_MINTS",
+      "Bounty is below the smallest",
+      "SOL bounty must pay the worker",
     ];
     if (safeMessages.some(msg => error.message.includes(msg))) {
       return error.message;
@@ -47,10 +79,35 @@ function sanitizeError(error: unknown): string {
 }
 
 // POST /api/v1/jobs - Create a new job
-router.post("/", async (req: Request, res: Response) => {
+router.post("/", requireWalletAuth(), async (req: Request, res: Response) => {
   try {
-    const input = CreateJobSchema.parse(req.body);
+    const requesterWallet = authenticatedWallet(req, req.body?.requesterWallet);
+    if (!requesterWallet) {
+      return res.status(403).json({ error: "Requester wallet does not match authenticated wallet" });
+    }
+
+    const input = CreateJobSchema.parse({ ...req.body, requesterWallet });
     const job = await jobService.create(input);
+    // CreateJobSchema only accepts PAYMENT_MINTS
+    const token = jobToken(job)!;
+
+    if (job.settlementMode === SettlementMode.X402) {
+      // Nothing to deposit: the job is open now and paid for on delivery
+      wsHub.broadcastJobNew(job);
+      return res.status(201).json({
+        success: true,
+        job: jobService.serialize(job),
+        payment: {
+          mode: SettlementMode.X402,
+          amount: job.bountyAmount,
+          amountAtomic: job.bountyAtomic.toString(),
+          mint: job.bountyMint,
+          symbol: token.symbol,
+          resultEndpoint: `/api/v1/results/${job.id}`,
+          instructions: "Pay on delivery: once the worker submits, GET the result endpoint and pay the 402 with an X-PAYMENT header. The job can only be paid this way; there is no escrow deposit, approval or rejection",
+        },
+      });
+    }
 
     res.status(201).json({
       success: true,
@@ -58,9 +115,16 @@ router.post("/", async (req: Request, res: Response) => {
       escrow: {
         status: "pending_deposit",
         depositTo: escrowService.getEscrowWallet(),
-        amountUsdc: job.bountyUsdc,
+        amount: job.bountyAmount,
         amountAtomic: job.bountyAtomic.toString(),
-        instructions: `Send ${job.bountyUsdc} USDC to escrow wallet, then call POST /api/v1/jobs/${job.id}/deposit with the transaction signature`,
+        mint: job.bountyMint,
+        symbol: token.symbol,
+        tokenProgram: token.programId.toBase58(),
+        reference: job.depositReference,
+        solanaPayUrl: escrowService.getDepositRequestUrl(job),
+        qrCode: `/api/v1/jobs/${job.id}/deposit-qr`,
+        expiresInHours: input.expiresInHours,
+        instructions: `Send ${job.bountyAmount} ${isNativeSol(token) ? "SOL (System Program transfer)" : `${token.symbol} (mint ${job.bountyMint})`} to escrow wallet with ${job.depositReference} added as a read-only, non-signer key on the transfer instruction. The job opens automatically once the deposit is detected; POST /api/v1/jobs/${job.id}/deposit with the transaction signature to activate it immediately`,
       },
     });
   } catch (error) {
@@ -106,7 +170,7 @@ router.post("/:id/activate", async (req: Request<{ id: string }>, res: Response)
 });
 
 // POST /api/v1/jobs/:id/deposit - Verify escrow deposit and activate job
-router.post("/:id/deposit", async (req: Request<{ id: string }>, res: Response) => {
+router.post("/:id/deposit", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
   try {
     const { depositTxSig } = VerifyDepositSchema.parse(req.body);
     const job = await jobService.get(req.params.id);
@@ -115,25 +179,33 @@ router.post("/:id/deposit", async (req: Request<{ id: string }>, res: Response)
       return res.status(404).json({ error: "Job not found" });
     }
 
+    if (job.requesterWallet !== req.auth!.wallet) {
+      return res.status(403).json({ error: "Only requester can submit deposit" });
+    }
+
+    // Already activated by the deposit watcher with this same transaction
+    if (job.status !== JobStatus.PENDING_DEPOSIT && job.escrowDepositTx === depositTxSig) {
+      return res.json({
+        success: true,
+        message: "Escrow already verified. Job is open for workers.",
+        job: jobService.serialize(job),
+      });
+    }
+
     if (job.status !== JobStatus.PENDING_DEPOSIT) {
       return res.status(400).json({ error: "Job not pending deposit" });
     }
 
-    const result = await escrowService.verifyDeposit(
-      job.id,
-      job.requesterWallet,
-      job.bountyAtomic,
-      depositTxSig
-    );
+    const result = await escrowService.verifyDeposit(job, depositTxSig);
 
-    if (!result.success) {
-      return res.status(400).json({ error: result.error || "Deposit verification failed" });
+    if (!result.success || !result.job) {
+      return res.status(400).json({
+        error: result.error || "Deposit verification failed",
+        mismatches: result.mismatches,
+      });
     }
 
-    const activatedJob = await jobService.activate(job.id, depositTxSig);
-    if (!activatedJob) {
-      return res.status(500).json({ error: "Failed to activate job" });
-    }
+    const activatedJob = result.job;
 
     wsHub.broadcastJobNew(activatedJob);
 
@@ -150,10 +222,87 @@ router.post("/:id/deposit", async (req: Request<{ id: string }>, res: Response)
   }
 });
 
+// POST /api/v1/jobs/:id/deposit-tx - Unsigned escrow deposit transaction for the requester to sign
+router.post("/:id/deposit-tx", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await jobService.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (job.requesterWallet !== req.auth!.wallet) {
+      return res.status(403).json({ error: "Only requester can submit deposit" });
+    }
+    if (job.status !== JobStatus.PENDING_DEPOSIT) {
+      return res.status(400).json({ error: "Job not pending deposit" });
+    }
+    if (!jobToken(job)) {
+      return res.status(409).json({ error: "Bounty mint is no longer an accepted payment token" });
+    }
+
+    const { transaction, lastValidBlockHeight } = await escrowService.buildDepositTx(job);
+
+    res.json({
+      success: true,
+      transaction,
+      lastValidBlockHeight,
+      payer: job.requesterWallet,
+      depositTo: escrowService.getEscrowWallet(),
+      amountAtomic: job.bountyAtomic.toString(),
+      mint: job.bountyMint,
+      reference: job.depositReference,
+      instructions: `Sign and send the transaction, then POST /api/v1/jobs/${job.id}/deposit with the signature (or wait for the job to open automatically)`,
+    });
+  } catch (error) {
+    console.error("Error building deposit transaction:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/v1/jobs/:id/deposit-qr - Solana Pay QR code for the escrow deposit (?format=svg|png)
+router.get("/:id/deposit-qr", async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const format = (req.query.format as string | undefined) ?? "svg";
+    if (format !== "svg" && format !== "png") {
+      return res.status(400).json({ error: "Invalid format - use svg or png" });
+    }
+
+    const job = await jobService.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (job.status !== JobStatus.PENDING_DEPOSIT) {
+      return res.status(400).json({ error: "Job not pending deposit" });
+    }
+    if (!jobToken(job)) {
+      return res.status(409).json({ error: "Bounty mint is no longer an accepted payment token" });
+    }
+
+    const url = escrowService.getDepositRequestUrl(job);
+    res.setHeader("X-Solana-Pay-Url", url);
+    res.setHeader("Cache-Control", "no-store");
+
+    if (format === "png") {
+      const png = await QRCode.toBuffer(url, { type: "png", width: 512, margin: 2, errorCorrectionLevel: "M" });
+      return res.type("image/png").send(png);
+    }
+
+    const svg = await QRCode.toString(url, { type: "svg", margin: 2, errorCorrectionLevel: "M" });
+    res.type("image/svg+xml").send(svg);
+  } catch (error) {
+    console.error("Error generating deposit QR:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // POST /api/v1/jobs/:id/cancel - Cancel job and refund escrow
-router.post("/:id/cancel", async (req: Request<{ id: string }>, res: Response) => {
+router.post("/:id/cancel", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
   try {
-    const { requesterWallet } = CancelJobSchema.parse(req.body);
+    const signer = authenticatedWallet(req, req.body?.requesterWallet);
+    if (!signer) {
+      return res.status(403).json({ error: "Only requester can cancel" });
+    }
+
+    const { requesterWallet } = CancelJobSchema.parse({ ...req.body, requesterWallet: signer });
     const job = await jobService.get(req.params.id);
 
     if (!job) {
@@ -192,8 +341,13 @@ router.get("/config", async (req: Request, res: Response) => {
   res.json({
     success: true,
     escrowWallet: escrowService.getEscrowWallet(),
-    network: "solana-devnet",
-    usdcMint: USDC_MINT_DEVNET.toBase58(),
+    network: NETWORK.x402Network,
+    cluster: NETWORK.name,
+    explorerTxTemplate: NETWORK.explorerTxTemplate,
+    usdcMint: NETWORK.usdcMint,
+    // Mints bounties can be paid in; the first is used when a job names none
+    paymentTokens: PAYMENT_TOKENS.map(serializePaymentToken),
+    defaultBountyMint: DEFAULT_PAYMENT_TOKEN.mint.toBase58(),
   });
 });
 
@@ -265,9 +419,14 @@ router.get("/:id", async (req: Request<{ id: string }>, res: Response) => {
 });
 
 // POST /api/v1/jobs/:id/claim - Claim a job
-router.post("/:id/claim", async (req: Request<{ id: string }>, res: Response) => {
+router.post("/:id/claim", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
   try {
-    const input = ClaimJobSchema.parse(req.body);
+    const workerWallet = authenticatedWallet(req, req.body?.workerWallet);
+    if (!workerWallet) {
+      return res.status(403).json({ error: "Worker wallet does not match authenticated wallet" });
+    }
+
+    const input = ClaimJobSchema.parse({ ...req.body, workerWallet });
     const job = await jobService.claim(req.params.id, input.workerWallet);
 
     if (!job) {
@@ -293,9 +452,14 @@ router.post("/:id/claim", async (req: Request<{ id: string }>, res: Response) =>
 });
 
 // POST /api/v1/jobs/:id/complete - Complete a job with result
-router.post("/:id/complete", async (req: Request<{ id: string }>, res: Response) => {
+router.post("/:id/complete", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
   try {
-    const input = CompleteJobSchema.parse(req.body);
+    const workerWallet = authenticatedWallet(req, req.body?.workerWallet);
+    if (!workerWallet) {
+      return res.status(403).json({ error: "Only the assigned worker can complete this job" });
+    }
+
+    const input = CompleteJobSchema.parse({ ...req.body, workerWallet });
     const job = await jobService.complete(
       req.params.id,
       input.result,
@@ -310,7 +474,7 @@ router.post("/:id/complete", async (req: Request<{ id: string }>, res: Response)
 
     res.json({
       success: true,
-      message: "Job completed. Result available at /api/v1/results/" + job.id,
+      message: "Job completed. Result under review by requester at /api/v1/results/" + job.id,
       job: jobService.serialize(job),
     });
   } catch (error) {
@@ -324,6 +488,115 @@ router.post("/:id/complete", async (req: Request<{ id: string }>, res: Response)
   }
 });
 
+// POST /api/v1/jobs/:id/approve - Requester accepts the result, releasing escrow
+router.post("/:id/approve", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await jobService.approve(req.params.id, req.auth!.wallet);
+
+    if (!job) {
+      return res.status(400).json({ error: "Failed to approve job" });
+    }
+
+    wsHub.broadcastJobPaid(job);
+
+    res.json({
+      success: true,
+      message: "Result approved. Escrow released to worker.",
+      job: jobService.serialize(job),
+      payment: {
+        status: "released",
+        txSig: job.escrowReleaseTx,
+      },
+    });
+  } catch (error) {
+    const message = sanitizeError(error);
+    const status = message.startsWith("Only requester") ? 403 : message === "Payment release failed" ? 500 : 400;
+    return res.status(status).json({ error: message });
+  }
+});
+
+// POST /api/v1/jobs/:id/reject - Requester rejects the result, refunding escrow
+router.post("/:id/reject", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { reason } = RejectJobSchema.parse(req.body);
+    const job = await jobService.reject(req.params.id, req.auth!.wallet, reason);
+
+    if (!job) {
+      return res.status(400).json({ error: "Failed to reject job" });
+    }
+
+    wsHub.broadcastJobRejected(job);
+
+    res.json({
+      success: true,
+      message: `Result rejected. Escrow is refunded to the requester in ${DISPUTE_WINDOW_HOURS}h unless the worker opens a dispute.`,
+      job: jobService.serialize(job),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        fields: error.errors.map(e => e.path.join(".")),
+      });
+    }
+    const message = sanitizeError(error);
+    return res.status(message.startsWith("Only requester") ? 403 : 400).json({ error: message });
+  }
+});
+
+// POST /api/v1/jobs/:id/dispute - Open a dispute (or respond to one) with evidence
+router.post("/:id/dispute", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { evidence } = OpenDisputeSchema.parse(req.body);
+    const { dispute, job, created } = await disputeService.open(req.params.id, req.auth!.wallet, evidence);
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created
+        ? "Dispute opened. Escrow is frozen until an admin resolves it."
+        : "Response recorded on open dispute.",
+      dispute,
+      job: jobService.serialize(job),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        fields: error.errors.map(e => e.path.join(".")),
+      });
+    }
+    const message = sanitizeError(error);
+    return res.status(message.startsWith("Only requester") ? 403 : 400).json({ error: message });
+  }
+});
+
+// GET /api/v1/jobs/:id/dispute - View the open dispute (parties only)
+router.get("/:id/dispute", requireWalletAuth(), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await jobService.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    const wallet = req.auth!.wallet;
+    if (wallet !== job.requesterWallet && wallet !== job.workerWallet) {
+      return res.status(403).json({ error: "Only requester or worker can view dispute" });
+    }
+
+    const dispute = await disputeService.getOpenForJob(job.id);
+    if (!dispute) {
+      return res.status(404).json({ error: "No open dispute" });
+    }
+
+    res.json({
+      success: true,
+      dispute,
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // GET /api/v1/jobs/:id/verify - Verify completed job
 router.get("/:id/verify", async (req: Request<{ id: string }>, res: Response) => {
   try {
@@ -332,7 +605,8 @@ router.get("/:id/verify", async (req: Request<{ id: string }>, res: Response) =>
       return res.status(404).json({ error: "Job not found" });
     }
 
-    if (job.status !== JobStatus.COMPLETED && job.status !== JobStatus.PAID) {
+    const reviewable = job.status === JobStatus.UNDER_REVIEW || job.status === JobStatus.COMPLETED;
+    if (!reviewable && job.status !== JobStatus.PAID && job.status !== JobStatus.REJECTED) {
       return res.status(400).json({
         error: "Job not completed",
         status: job.status,
@@ -362,16 +636,26 @@ router.get("/:id/verify", async (req: Request<{ id: string }>, res: Response) =>
           preview: preview,
           algorithm: "sha256"
         },
+        review: {
+          pending: reviewable,
+          reviewDeadline: job.reviewDeadline,
+          rejectionReason: job.rejectionReason,
+          approveEndpoint: `/api/v1/jobs/${job.id}/approve`,
+          rejectEndpoint: `/api/v1/jobs/${job.id}/reject`,
+        },
         payment: {
-          required: job.status === JobStatus.COMPLETED,
+          required: reviewable,
           paid: job.status === JobStatus.PAID,
-          bountyUsdc: job.bountyUsdc,
+          bountyAmount: job.bountyAmount,
+          bountyMint: job.bountyMint,
           paymentEndpoint: `/api/v1/results/${job.id}`
         }
       },
-      message: job.status === JobStatus.COMPLETED
-        ? "Job completed. Pay via x402 to get full result."
-        : "Job paid. Full result available at payment endpoint."
+      message: reviewable
+        ? "Job completed. Review the result, then approve or reject it."
+        : job.status === JobStatus.PAID
+          ? "Job paid. Full result available at result endpoint."
+          : "Result rejected. Escrow refunded to requester."
     });
   } catch (error) {
     console.error("Error verifying job:", error);
@@ -1,15 +1,23 @@
 import { Router, Request, Response } from "express";
 import { jobService } from "../../services/job-service.js";
 import { escrowService } from "../../services/escrow-service.js";
-import { JobStatus } from "../../config/constants.js";
-import { wsHub } from "../websocket/hub.js";
+import { JobStatus, SettlementMode } from "../../config/constants.js";
+import { requireWalletAuth } from "../middleware/auth.js";
+import { x402Paywall } from "../middleware/x402.js";
+import { paymentService } from "../../services/payment-service.js";
+import { isValidPublicKey } from "../../solana/client.js";
+import { jobToken } from "../../models/job.js";
 
 const router = Router();
 
 /**
- * GET /api/v1/results/:jobId - Get job result (releases escrow to worker)
+ * GET /api/v1/results/:jobId - Get job result
+ * Only the requester or the assigned worker may read a result. For escrow jobs
+ * reading never releases escrow; the requester approves via
+ * POST /api/v1/jobs/:id/approve. For pay-on-delivery jobs the requester pays
+ * the x402 paywall to read it.
  */
-router.get("/:jobId", async (req: Request<{ jobId: string }>, res: Response) => {
+router.get("/:jobId", requireWalletAuth(), x402Paywall(), async (req: Request<{ jobId: string }>, res: Response) => {
   try {
     const jobId = req.params.jobId;
     const job = await jobService.get(jobId);
@@ -18,6 +26,11 @@ router.get("/:jobId", async (req: Request<{ jobId: string }>, res: Response) =>
       return res.status(404).json({ error: "Job not found" });
     }
 
+    const wallet = req.auth!.wallet;
+    if (wallet !== job.requesterWallet && wallet !== job.workerWallet) {
+      return res.status(403).json({ error: "Only requester or worker can view result" });
+    }
+
     if (job.status === JobStatus.PENDING_DEPOSIT) {
       return res.status(400).json({ error: "Job pending escrow deposit" });
     }
@@ -39,52 +52,80 @@ router.get("/:jobId", async (req: Request<{ jobId: string }>, res: Response) =>
       return res.status(404).json({ error: "Result not found" });
     }
 
-    // If already paid, just return the result
-    if (job.status === JobStatus.PAID) {
+    const base = {
+      success: true,
+      jobId: result.jobId,
+      result: result.result,
+      worker: result.workerWallet,
+      submittedAt: result.submittedAt,
+    };
+
+    if (job.settlementMode === SettlementMode.X402) {
+      if (job.status === JobStatus.PAID) {
+        return res.json({
+          ...base,
+          payment: { status: "paid", txSig: job.paymentTxSig, paidAt: job.paidAt },
+        });
+      }
+      // Served by the paywall before settlement confirmed (X402_ASYNC_SETTLEMENT)
+      if (req.payment) {
+        return res.json({
+          ...base,
+          payment: { status: "settling", txSig: req.payment.txSig },
+        });
+      }
+      // The worker reading their own submission
       return res.json({
-        success: true,
-        jobId: result.jobId,
-        result: result.result,
-        worker: result.workerWallet,
-        submittedAt: result.submittedAt,
+        ...base,
         payment: {
-          status: "released",
+          status: "awaiting_payment",
+          message: "The requester pays for this result via x402 on delivery",
+        },
+      });
+    }
+
+    if (job.status === JobStatus.PAID || job.status === JobStatus.SETTLED) {
+      return res.json({
+        ...base,
+        payment: {
+          status: job.status === JobStatus.SETTLED ? "split" : "released",
           txSig: job.escrowReleaseTx,
           releasedAt: job.paidAt,
         },
       });
     }
 
-    // Job is completed - release escrow to worker
-    if (job.status === JobStatus.COMPLETED) {
-      if (!await escrowService.hasVerifiedEscrow(jobId)) {
-        return res.status(500).json({ error: "Escrow record not found" });
-      }
-
-      const releaseResult = await escrowService.releaseToWorker(jobId, job.workerWallet!);
-
-      if (!releaseResult.success) {
-        console.error(`Escrow release failed for job ${jobId}:`, releaseResult.error);
-        return res.status(500).json({ error: "Payment release failed", details: releaseResult.error });
-      }
-
-      await jobService.markEscrowReleased(jobId, releaseResult.txSig!);
+    if (job.status === JobStatus.DISPUTED) {
+      return res.json({
+        ...base,
+        payment: {
+          status: "disputed",
+          message: "Escrow frozen pending dispute resolution",
+        },
+      });
+    }
 
-      const updatedJob = await jobService.get(jobId);
-      if (updatedJob) {
-        wsHub.broadcastJobPaid(updatedJob);
-      }
+    if (job.status === JobStatus.REJECTED) {
+      const escrow = await escrowService.getEscrow(jobId);
+      return res.json({
+        ...base,
+        payment: {
+          status: escrow?.status === "held" ? "refund_pending" : "refunded",
+          rejectionReason: job.rejectionReason,
+          reviewedAt: job.reviewedAt,
+        },
+      });
+    }
 
+    if (job.status === JobStatus.UNDER_REVIEW || job.status === JobStatus.COMPLETED) {
       return res.json({
-        success: true,
-        jobId: result.jobId,
-        result: result.result,
-        worker: result.workerWallet,
-        submittedAt: result.submittedAt,
+        ...base,
         payment: {
-          status: "released",
-          txSig: releaseResult.txSig,
-          message: "Escrow released to worker",
+          status: "held",
+          reviewDeadline: job.reviewDeadline,
+          message: "Escrow is released when the requester approves the result (auto-approved at reviewDeadline)",
+          approveEndpoint: `/api/v1/jobs/${job.id}/approve`,
+          rejectEndpoint: `/api/v1/jobs/${job.id}/reject`,
         },
       });
     }
@@ -97,4 +138,53 @@ router.get("/:jobId", async (req: Request<{ jobId: string }>, res: Response) =>
   }
 });
 
+/**
+ * POST /api/v1/results/:jobId/payment-tx - Unsigned x402 payment transaction
+ * Body: { payerWallet }. Pays the worker (and the platform fee leg); the
+ * payer signs it and sends it base64-encoded in the X-Payment header.
+ */
+router.post("/:jobId/payment-tx", async (req: Request<{ jobId: string }>, res: Response) => {
+  try {
+    const payerWallet = req.body?.payerWallet;
+    if (typeof payerWallet !== "string" || !isValidPublicKey(payerWallet)) {
+      return res.status(400).json({ error: "Invalid payer wallet address" });
+    }
+
+    const job = await jobService.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (job.settlementMode !== SettlementMode.X402) {
+      return res.status(400).json({ error: "Job is escrow-funded - the worker is paid when the result is approved" });
+    }
+    if (!job.workerWallet || (job.status !== JobStatus.UNDER_REVIEW && job.status !== JobStatus.COMPLETED)) {
+      return res.status(400).json({ error: "Job result not available for payment", status: job.status });
+    }
+
+    const token = jobToken(job);
+    if (!token) {
+      return res.status(409).json({ error: "Bounty mint is no longer an accepted payment token" });
+    }
+
+    const payment = await paymentService.buildPaymentTx(
+      payerWallet,
+      job.workerWallet,
+      job.bountyAtomic,
+      token
+    );
+
+    res.json({
+      success: true,
+      ...payment,
+      payer: payerWallet,
+      totalAtomic: job.bountyAtomic.toString(),
+      mint: job.bountyMint,
+      instructions: "Sign the transaction and send {\"x402Version\": 1, \"scheme\": \"exact\", \"network\": ..., \"payload\": {\"transaction\": <base64 signed tx>}}, base64-encoded, in the X-PAYMENT header",
+    });
+  } catch (error) {
+    console.error("Error building payment transaction:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 export default router;
@@ -2,6 +2,7 @@ import { WebSocketServer, WebSocket } from "ws";
 import { Server } from "http";
 import { WsEventType } from "../../config/constants.js";
 import { Job, serializeJob } from "../../models/job.js";
+import { authService } from "../../services/auth-service.js";
 
 interface WsClient {
   ws: WebSocket;
@@ -12,7 +13,7 @@ interface WsClient {
 interface WsMessage {
   type: "subscribe" | "unsubscribe" | "ping";
   events?: WsEventType[];
-  wallet?: string;
+  token?: string; // Session token binding the connection to a wallet
 }
 
 interface WsEvent {
@@ -38,6 +39,8 @@ export class WebSocketHub {
           WsEventType.JOB_NEW,
           WsEventType.JOB_CLAIMED,
           WsEventType.JOB_COMPLETED,
+          WsEventType.JOB_EXPIRED,
+          WsEventType.JOB_UNCLAIMED,
         ]),
       };
       this.clients.set(ws, client);
@@ -55,7 +58,10 @@ export class WebSocketHub {
       ws.on("message", (data: Buffer) => {
         try {
           const message: WsMessage = JSON.parse(data.toString());
-          this.handleMessage(ws, message);
+          this.handleMessage(ws, message).catch((error) => {
+            console.error("WebSocket message error:", error);
+            ws.send(JSON.stringify({ error: "Failed to process message" }));
+          });
         } catch (error) {
           ws.send(JSON.stringify({ error: "Invalid message format" }));
         }
@@ -77,18 +83,24 @@ export class WebSocketHub {
     console.log("WebSocket hub initialized");
   }
 
-  private handleMessage(ws: WebSocket, message: WsMessage): void {
+  private async handleMessage(ws: WebSocket, message: WsMessage): Promise<void> {
     const client = this.clients.get(ws);
     if (!client) return;
 
     switch (message.type) {
       case "subscribe":
+        // Wallet-scoped notifications require a session token, not a claimed address
+        if (message.token) {
+          const session = await authService.getSession(message.token);
+          if (!session) {
+            ws.send(JSON.stringify({ error: "Invalid or expired session token" }));
+            return;
+          }
+          client.wallet = session.wallet;
+        }
         if (message.events) {
           message.events.forEach((event) => client.subscriptions.add(event));
         }
-        if (message.wallet) {
-          client.wallet = message.wallet;
-        }
         ws.send(
           JSON.stringify({
             type: "subscribed",
@@ -154,6 +166,18 @@ export class WebSocketHub {
     this.broadcast(WsEventType.JOB_PAID, serializeJob(job));
   }
 
+  broadcastJobExpired(job: Job): void {
+    this.broadcast(WsEventType.JOB_EXPIRED, serializeJob(job));
+  }
+
+  broadcastJobRejected(job: Job): void {
+    this.broadcast(WsEventType.JOB_REJECTED, serializeJob(job));
+  }
+
+  broadcastJobUnclaimed(job: Job): void {
+    this.broadcast(WsEventType.JOB_UNCLAIMED, serializeJob(job));
+  }
+
   // Notify specific wallet
   notifyWallet(wallet: string, eventType: WsEventType, data: object): void {
     const event: WsEvent = {
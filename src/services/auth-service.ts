@@ -0,0 +1,173 @@
+import { createHash, randomBytes } from "crypto";
+import { SESSION_TTL_MINUTES } from "../config/constants.js";
+import { query, queryOne } from "../db/index.js";
+import { isValidPublicKey, verifyWalletSignature } from "../solana/client.js";
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes to sign a challenge
+
+export interface AuthChallenge {
+  wallet: string;
+  nonce: string;
+  message: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export interface AuthSession {
+  id: string;
+  wallet: string;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function rowToChallenge(row: any): AuthChallenge {
+  return {
+    wallet: row.wallet,
+    nonce: row.nonce,
+    message: row.message,
+    issuedAt: new Date(row.issued_at),
+    expiresAt: new Date(row.expires_at),
+  };
+}
+
+function rowToSession(row: any): AuthSession {
+  return {
+    id: row.id,
+    wallet: row.wallet,
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+  };
+}
+
+export class AuthService {
+  // Issue a sign-in-with-Solana challenge for a wallet. Challenges are stored
+  // with the sessions, so any replica can verify the signature.
+  async createChallenge(wallet: string, domain: string): Promise<AuthChallenge> {
+    if (!isValidPublicKey(wallet)) {
+      throw new Error("Invalid wallet address");
+    }
+
+    const nonce = randomBytes(16).toString("hex");
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_MS);
+
+    const message = [
+      `${domain} wants you to sign in with your Solana account:`,
+      wallet,
+      "",
+      "Sign in to AgentWork Marketplace",
+      "",
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join("\n");
+
+    await query(
+      `INSERT INTO auth_challenges (nonce, wallet, message, issued_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [nonce, wallet, message, issuedAt, expiresAt]
+    );
+    return { wallet, nonce, message, issuedAt, expiresAt };
+  }
+
+  // Verify a signed challenge and open a session
+  async verifyChallenge(
+    wallet: string,
+    nonce: string,
+    signature: string
+  ): Promise<{ token: string; session: AuthSession }> {
+    // Challenges are single use regardless of outcome; the delete is the claim
+    const row = await queryOne<any>(
+      `DELETE FROM auth_challenges WHERE nonce = $1 RETURNING *`,
+      [nonce]
+    );
+    const challenge = row ? rowToChallenge(row) : null;
+
+    if (!challenge || challenge.wallet !== wallet) {
+      throw new Error("Challenge not found");
+    }
+    if (Date.now() > challenge.expiresAt.getTime()) {
+      throw new Error("Challenge expired");
+    }
+    if (!verifyWalletSignature(wallet, challenge.message, signature)) {
+      throw new Error("Invalid signature");
+    }
+
+    return this.createSession(wallet);
+  }
+
+  // Resolve a bearer token to its active session
+  async getSession(token: string): Promise<AuthSession | null> {
+    const row = await queryOne<any>(
+      `SELECT * FROM auth_sessions
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [hashToken(token)]
+    );
+    return row ? rowToSession(row) : null;
+  }
+
+  // Swap a live token for a fresh one, revoking the old token
+  async refresh(token: string): Promise<{ token: string; session: AuthSession } | null> {
+    const rows = await query<any>(
+      `UPDATE auth_sessions
+       SET revoked_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [hashToken(token)]
+    );
+    if (!rows[0]) {
+      return null;
+    }
+    return this.createSession(rows[0].wallet);
+  }
+
+  async revoke(token: string): Promise<boolean> {
+    const rows = await query(
+      `UPDATE auth_sessions SET revoked_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [hashToken(token)]
+    );
+    return rows.length > 0;
+  }
+
+  async revokeAllForWallet(wallet: string): Promise<number> {
+    const rows = await query(
+      `UPDATE auth_sessions SET revoked_at = NOW()
+       WHERE wallet = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [wallet]
+    );
+    return rows.length;
+  }
+
+  // Drop challenges that expired unsigned
+  async pruneExpiredChallenges(): Promise<number> {
+    const rows = await query(
+      `DELETE FROM auth_challenges WHERE expires_at < NOW() RETURNING nonce`
+    );
+    return rows.length;
+  }
+
+  private async createSession(wallet: string): Promise<{ token: string; session: AuthSession }> {
+    const token = `aw_${randomBytes(32).toString("base64url")}`;
+    const id = `sess_${randomBytes(8).toString("hex")}`;
+
+    const rows = await query<any>(
+      `INSERT INTO auth_sessions (id, wallet, token_hash, expires_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))
+       RETURNING *`,
+      [id, wallet, hashToken(token), SESSION_TTL_MINUTES]
+    );
+
+    return { token, session: rowToSession(rows[0]) };
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,190 @@
+import { ConfirmedSignatureInfo, PublicKey } from "@solana/web3.js";
+import { getConnection } from "../solana/client.js";
+import { getTokenAccountAddress } from "../solana/token.js";
+import { DEPOSIT_WATCH_INTERVAL_MS, JobStatus } from "../config/constants.js";
+import { PAYMENT_TOKENS, PaymentToken } from "../config/tokens.js";
+import { Job } from "../models/job.js";
+import { escrowService } from "./escrow-service.js";
+import { jobService } from "./job-service.js";
+import { wsHub } from "../server/websocket/hub.js";
+
+// Signatures fetched on the first poll, before there is a cursor
+const INITIAL_SCAN_LIMIT = 100;
+// getSignaturesForAddress returns at most 1000 per call
+const SIGNATURE_PAGE_LIMIT = 1000;
+// Transactions fetched per getParsedTransactions call
+const TX_FETCH_BATCH = 100;
+
+export class DepositWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  // Newest signature already scanned, per escrow token account (by mint)
+  private cursors = new Map<string, string>();
+
+  start(intervalMs: number = DEPOSIT_WATCH_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    if (!escrowService.getEscrowWallet()) {
+      console.warn("No escrow wallet configured - deposit watcher disabled");
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error("Deposit watch failed:", error));
+    }, intervalMs);
+
+    console.log(`Deposit watcher started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Scan new transactions on the escrow token account of every payment mint
+   * and activate any PENDING_DEPOSIT job whose reference key appears in one.
+   * The transfer itself (sender, amount, mint, destination) is checked by
+   * escrowService.verifyDeposit, exactly as for POST /jobs/:id/deposit.
+   */
+  async poll(): Promise<Job[]> {
+    if (this.polling) return [];
+    this.polling = true;
+
+    try {
+      const pending = (await jobService.list(JobStatus.PENDING_DEPOSIT))
+        .filter((job) => job.depositReference);
+
+      const activated: Job[] = [];
+      for (const token of PAYMENT_TOKENS) {
+        const mint = token.mint.toBase58();
+        const byReference = new Map(
+          pending
+            .filter((job) => job.bountyMint === mint)
+            .map((job) => [job.depositReference!, job])
+        );
+        activated.push(...(await this.scan(token, byReference)));
+      }
+      return activated;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Scan one escrow token account past its cursor for the given jobs'
+   * references. The cursor only advances past candidates that were settled
+   * one way or the other: a transaction that could not be fetched, a
+   * verification that failed for a transient reason, or an activation that
+   * threw holds it just before that candidate, so the next poll retries it.
+   */
+  private async scan(token: PaymentToken, byReference: Map<string, Job>): Promise<Job[]> {
+    const mint = token.mint.toBase58();
+    const cursor = this.cursors.get(mint);
+    const escrowAta = await getTokenAccountAddress(token, new PublicKey(escrowService.getEscrowWallet()));
+
+    // Newest first
+    const signatures = await this.fetchSignatures(escrowAta, cursor);
+    if (signatures.length === 0) return [];
+
+    const activated: Job[] = [];
+    let retryFrom: number | null = null; // Index in `signatures` of the oldest candidate to retry
+
+    if (byReference.size > 0) {
+      // Oldest first, so the first qualifying deposit for a job wins
+      const candidates = signatures
+        .map((s, index) => ({ ...s, index }))
+        .filter((s) => !s.err)
+        .reverse();
+
+      for (let start = 0; start < candidates.length; start += TX_FETCH_BATCH) {
+        const batch = candidates.slice(start, start + TX_FETCH_BATCH);
+        const txs = await getConnection().getParsedTransactions(
+          batch.map((s) => s.signature),
+          { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+        );
+
+        for (let i = 0; i < batch.length; i++) {
+          const tx = txs[i];
+          if (!tx) {
+            retryFrom ??= batch[i].index;
+            continue;
+          }
+
+          const job = tx.transaction.message.accountKeys
+            .map((key) => byReference.get(key.pubkey.toBase58()))
+            .find((match) => match !== undefined);
+          if (!job) continue;
+
+          const outcome = await this.activate(job, batch[i].signature);
+          if (outcome.job) {
+            activated.push(outcome.job);
+            byReference.delete(job.depositReference!);
+          } else if (outcome.retry) {
+            retryFrom ??= batch[i].index;
+          }
+        }
+      }
+    }
+
+    if (retryFrom === null) {
+      this.cursors.set(mint, signatures[0].signature);
+    } else {
+      // Resume just before the oldest candidate to retry
+      const resumeAfter = signatures[retryFrom + 1]?.signature ?? cursor;
+      if (resumeAfter) {
+        this.cursors.set(mint, resumeAfter);
+      } else {
+        this.cursors.delete(mint);
+      }
+    }
+    return activated;
+  }
+
+  // Every signature newer than the cursor, paging back with `before`; without
+  // a cursor, just the most recent INITIAL_SCAN_LIMIT
+  private async fetchSignatures(address: PublicKey, cursor: string | undefined): Promise<ConfirmedSignatureInfo[]> {
+    const conn = getConnection();
+    if (!cursor) {
+      return conn.getSignaturesForAddress(address, { limit: INITIAL_SCAN_LIMIT }, "confirmed");
+    }
+
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    for (;;) {
+      const page = await conn.getSignaturesForAddress(
+        address,
+        { until: cursor, before, limit: SIGNATURE_PAGE_LIMIT },
+        "confirmed"
+      );
+      signatures.push(...page);
+      if (page.length < SIGNATURE_PAGE_LIMIT) return signatures;
+      before = page[page.length - 1].signature;
+    }
+  }
+
+  // Activated job, or whether the deposit is worth retrying on the next poll
+  private async activate(job: Job, txSig: string): Promise<{ job: Job | null; retry: boolean }> {
+    try {
+      const result = await escrowService.verifyDeposit(job, txSig);
+      if (!result.success || !result.job) {
+        // Already handled through POST /deposit, or a transfer that doesn't qualify
+        if (result.error !== "Job already has escrow deposit") {
+          console.warn(`Deposit ${txSig} for job ${job.id} not accepted: ${result.error}`);
+        }
+        return { job: null, retry: result.retryable ?? false };
+      }
+
+      console.log(`Deposit detected for job ${job.id} (${txSig}) - job is now open`);
+      wsHub.broadcastJobNew(result.job);
+      return { job: result.job, retry: false };
+    } catch (error) {
+      console.error(`Deposit ${txSig} for job ${job.id} failed, will retry:`, error);
+      return { job: null, retry: true };
+    }
+  }
+}
+
+export const depositWatcher = new DepositWatcher();
@@ -0,0 +1,233 @@
+import {
+  createDispute,
+  addDisputeResponse,
+  resolveDispute,
+  getDispute,
+  getOpenDisputeForJob,
+  listDisputes,
+  Dispute,
+  DisputeResolution,
+  DisputeRole,
+  ResolveDisputeInput,
+} from "../models/dispute.js";
+import {
+  getJob,
+  markJobDisputed,
+  markDisputeSettled,
+  listDisputedWithSettledEscrow,
+  Job,
+} from "../models/job.js";
+import { JobStatus, WsEventType, DISPUTE_WINDOW_HOURS } from "../config/constants.js";
+import { escrowService } from "./escrow-service.js";
+import { wsHub } from "../server/websocket/hub.js";
+
+// Job statuses from which a dispute may be opened
+const DISPUTABLE_STATUSES = [JobStatus.UNDER_REVIEW, JobStatus.COMPLETED, JobStatus.REJECTED];
+
+export class DisputeService {
+  // Open a dispute, or record the counterparty's response to an open one
+  async open(jobId: string, wallet: string, evidence: string): Promise<{ dispute: Dispute; job: Job; created: boolean }> {
+    const job = await getJob(jobId);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+
+    const role = this.roleOf(job, wallet);
+    if (!role) {
+      throw new Error("Only requester or worker can dispute");
+    }
+
+    const existing = await getOpenDisputeForJob(jobId);
+    if (existing) {
+      if (existing.openedBy === wallet) {
+        throw new Error("Dispute already open");
+      }
+      const responded = await addDisputeResponse(existing.id, evidence);
+      if (!responded) {
+        throw new Error("Dispute response already submitted");
+      }
+      this.notifyParties(job, WsEventType.DISPUTE_RESPONDED, responded);
+      return { dispute: responded, job, created: false };
+    }
+
+    if (!DISPUTABLE_STATUSES.includes(job.status)) {
+      throw new Error(`Job cannot be disputed - status is ${job.status}`);
+    }
+    if (job.status === JobStatus.REJECTED && job.reviewedAt) {
+      const windowEnds = job.reviewedAt.getTime() + DISPUTE_WINDOW_HOURS * 60 * 60 * 1000;
+      if (Date.now() > windowEnds) {
+        throw new Error("Dispute window has closed");
+      }
+    }
+
+    // Freeze funds before flipping the job so nothing can release or refund them
+    if (!await escrowService.freeze(jobId)) {
+      throw new Error("Escrow not held for this job");
+    }
+
+    const disputedJob = await markJobDisputed(jobId, DISPUTABLE_STATUSES);
+    if (!disputedJob) {
+      await escrowService.unfreeze(jobId);
+      throw new Error(`Job cannot be disputed - status is ${job.status}`);
+    }
+
+    const dispute = await createDispute(jobId, wallet, role, evidence, job.status);
+    console.log(`Dispute ${dispute.id} opened on job ${jobId} by ${role}`);
+
+    this.notifyParties(disputedJob, WsEventType.DISPUTE_OPENED, dispute);
+    return { dispute, job: disputedJob, created: true };
+  }
+
+  // Resolve an open dispute by moving the frozen escrow
+  async resolve(disputeId: string, input: ResolveDisputeInput): Promise<{ dispute: Dispute; job: Job }> {
+    const dispute = await getDispute(disputeId);
+    if (!dispute) {
+      throw new Error("Dispute not found");
+    }
+    if (dispute.status !== "open") {
+      throw new Error("Dispute already resolved");
+    }
+
+    const job = await getJob(dispute.jobId);
+    if (!job || job.status !== JobStatus.DISPUTED) {
+      throw new Error("Job not in disputed status");
+    }
+
+    await escrowService.unfreeze(job.id);
+
+    let outcome: { success: boolean; txSig?: string; error?: string };
+    let finalStatus: JobStatus;
+
+    switch (input.resolution) {
+      case "release":
+        outcome = await escrowService.releaseToWorker(job.id, job.workerWallet!);
+        finalStatus = JobStatus.PAID;
+        break;
+      case "refund":
+        outcome = await escrowService.refundToRequester(job.id);
+        finalStatus = JobStatus.REJECTED;
+        break;
+      case "split":
+        outcome = await escrowService.splitPayout(job.id, job.workerWallet!, input.workerSharePercent!);
+        finalStatus = JobStatus.SETTLED;
+        break;
+    }
+
+    if (!outcome.success) {
+      console.error(`Dispute ${disputeId} resolution failed:`, outcome.error);
+      // Re-freeze so the escrow stays locked until an admin retries. A payout
+      // that may still land leaves the escrow "releasing" instead; recovery
+      // then closes the dispute if it confirms, or returns the escrow to held.
+      if (!await escrowService.freeze(job.id)) {
+        const escrow = await escrowService.getEscrow(job.id);
+        console.warn(`Dispute ${disputeId}: escrow not re-frozen, status is ${escrow?.status ?? "missing"}`);
+        if (escrow?.status === "releasing") {
+          throw new Error("Resolution payout pending confirmation");
+        }
+      }
+      throw new Error("Resolution payout failed");
+    }
+
+    return this.settle(
+      dispute,
+      job,
+      input.resolution,
+      input.resolution === "split" ? input.workerSharePercent! : null,
+      input.note ?? null,
+      outcome.txSig!,
+      finalStatus
+    );
+  }
+
+  /**
+   * Close disputes whose payout was only confirmed after resolve() gave up
+   * on it, e.g. by settlement recovery after a crash or an unconfirmed send.
+   * The escrow's final status says which resolution was carried out.
+   */
+  async recoverSettled(): Promise<number> {
+    const settled = await listDisputedWithSettledEscrow();
+    let recovered = 0;
+
+    for (const { job, escrowStatus, releaseTxSig, workerPercent } of settled) {
+      try {
+        const dispute = await getOpenDisputeForJob(job.id);
+        const resolution: DisputeResolution =
+          escrowStatus === "released" ? "release" : escrowStatus === "refunded" ? "refund" : "split";
+        const finalStatus = escrowStatus === "released"
+          ? JobStatus.PAID
+          : escrowStatus === "refunded" ? JobStatus.REJECTED : JobStatus.SETTLED;
+
+        if (dispute) {
+          await this.settle(
+            dispute,
+            job,
+            resolution,
+            resolution === "split" ? workerPercent : null,
+            "Resolved by settlement recovery",
+            releaseTxSig,
+            finalStatus
+          );
+        } else {
+          await markDisputeSettled(job.id, finalStatus, releaseTxSig);
+        }
+        recovered++;
+        console.log(`Disputed job ${job.id} settled from recovered ${escrowStatus} escrow (${releaseTxSig})`);
+      } catch (error) {
+        console.error(`Dispute recovery failed for job ${job.id}:`, error);
+      }
+    }
+
+    return recovered;
+  }
+
+  // Record a carried-out resolution on the dispute and the job, and tell both parties
+  private async settle(
+    dispute: Dispute,
+    job: Job,
+    resolution: DisputeResolution,
+    workerSharePercent: number | null,
+    note: string | null,
+    txSig: string,
+    finalStatus: JobStatus
+  ): Promise<{ dispute: Dispute; job: Job }> {
+    const resolved = await resolveDispute(dispute.id, resolution, workerSharePercent, note, txSig);
+    const settledJob = await markDisputeSettled(job.id, finalStatus, txSig);
+
+    console.log(`Dispute ${dispute.id} resolved (${resolution}) for job ${job.id}`);
+
+    this.notifyParties(settledJob ?? job, WsEventType.DISPUTE_RESOLVED, resolved ?? dispute);
+    if (settledJob && finalStatus === JobStatus.PAID) {
+      wsHub.broadcastJobPaid(settledJob);
+    }
+
+    return { dispute: resolved ?? dispute, job: settledJob ?? job };
+  }
+
+  async get(id: string): Promise<Dispute | null> {
+    return getDispute(id);
+  }
+
+  async getOpenForJob(jobId: string): Promise<Dispute | null> {
+    return getOpenDisputeForJob(jobId);
+  }
+
+  async list(status?: "open" | "resolved"): Promise<Dispute[]> {
+    return listDisputes(status);
+  }
+
+  private roleOf(job: Job, wallet: string): DisputeRole | null {
+    if (wallet === job.requesterWallet) return "requester";
+    if (wallet === job.workerWallet) return "worker";
+    return null;
+  }
+
+  private notifyParties(job: Job, eventType: WsEventType, dispute: Dispute): void {
+    const data = { jobId: job.id, jobStatus: job.status, dispute };
+    wsHub.notifyWallet(job.requesterWallet, eventType, data);
+    if (job.workerWallet) {
+      wsHub.notifyWallet(job.workerWallet, eventType, data);
+    }
+  }
+}
+
+export const disputeService = new DisputeService();
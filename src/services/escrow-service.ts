@@ -1,23 +1,122 @@
-import { PublicKey, Keypair, Transaction } from "@solana/web3.js";
+import { PublicKey, Keypair, Transaction, SystemProgram } from "@solana/web3.js";
+import bs58 from "bs58";
 import { getConnection, loadWallet } from "../solana/client.js";
-import { verifyUsdcTransfer } from "../solana/usdc.js";
-import { PLATFORM_WALLET, PLATFORM_FEE_PERCENT, calculateFees, USDC_MINT_DEVNET } from "../config/constants.js";
-import { createTransferInstruction, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction, getAccount } from "@solana/spl-token";
-import { query, queryOne } from "../db/index.js";
+import {
+  verifyTokenTransfer,
+  buildTokenTransferTx,
+  serializeUnsignedTx,
+  getTokenAccountAddress,
+  checkRentExemptTransfer,
+} from "../solana/token.js";
+import {
+  PLATFORM_WALLET,
+  PLATFORM_FEE_PERCENT,
+  ESCROW_SOL_RESERVE_LAMPORTS,
+  calculateFees,
+} from "../config/constants.js";
+import { getPaymentToken, isNativeSol, NATIVE_SOL_TOKEN, PaymentToken } from "../config/tokens.js";
+import {
+  createTransferCheckedInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAccountLen,
+  ExtensionType,
+  ACCOUNT_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+} from "@solana/spl-token";
+import { query, queryOne, withTransaction } from "../db/index.js";
+import { recordPlatformFee } from "../models/platform-fee.js";
+import { ledgerService } from "./ledger-service.js";
+import { claimTransaction, releaseTransaction } from "../models/processed-tx.js";
+import { Job, jobToken, activateJob } from "../models/job.js";
+import { buildTransferRequestUrl } from "../solana/pay.js";
 
 const ESCROW_WALLET = process.env.ESCROW_WALLET || PLATFORM_WALLET;
 const ESCROW_PRIVATE_KEY = process.env.ESCROW_PRIVATE_KEY;
 
+// Verification failures that may pass on a later attempt (RPC lag or errors)
+const RETRYABLE_VERIFY_REASONS = new Set(["Transaction not found", "Verification error"]);
+
 export interface EscrowRecord {
   jobId: string;
   requesterWallet: string;
   workerWallet: string | null;
   amountAtomic: bigint;
+  mint: string;
   depositTxSig: string;
   depositVerifiedAt: Date;
-  status: "held" | "released" | "refunded";
+  status: "held" | "disputed" | "releasing" | "released" | "refunded" | "split";
   releaseTxSig: string | null;
   releasedAt: Date | null;
+  settlement: SettlementLeg[] | null;
+  // In-flight settlement intent, present only while status is "releasing"
+  pendingTxSig: string | null;
+  pendingSince: Date | null;
+}
+
+type FinalEscrowStatus = "released" | "refunded" | "split";
+
+// Settlement transaction signed and recorded, but not yet known to have landed
+interface SettlementIntent {
+  jobId: string;
+  txSig: string;
+  serializedTx: string;
+  mint: string;
+  finalStatus: FinalEscrowStatus;
+  settlement: SettlementLeg[];
+  lastValidBlockHeight: number;
+}
+
+export interface SettlementAllocation {
+  role: "worker" | "requester";
+  wallet: string;
+  percent: number; // Share of the escrowed amount, 0-100
+}
+
+// Per-recipient breakdown stored on the escrow record (atomic amounts as strings)
+export interface SettlementLeg {
+  role: "worker" | "requester";
+  wallet: string;
+  percent: number;
+  grossAtomic: string;
+  feeAtomic: string;
+  netAtomic: string;
+}
+
+export interface SettlementResult {
+  success: boolean;
+  txSig?: string;
+  error?: string;
+  settlement?: SettlementLeg[];
+}
+
+// Split an escrowed amount by percentage. Rounding dust goes to the last
+// allocation so the legs always sum to the escrowed total.
+function computeSettlement(totalAtomic: bigint, allocations: SettlementAllocation[]): SettlementLeg[] | null {
+  if (allocations.length === 0) return null;
+
+  const basisPoints = allocations.map((a) => Math.round(a.percent * 100));
+  if (basisPoints.some((bps) => bps <= 0) || basisPoints.reduce((sum, bps) => sum + bps, 0) !== 10000) {
+    return null;
+  }
+
+  let allocated = 0n;
+  return allocations.map((allocation, i) => {
+    const gross = i === allocations.length - 1
+      ? totalAtomic - allocated
+      : (totalAtomic * BigInt(basisPoints[i])) / 10000n;
+    allocated += gross;
+
+    const fee = allocation.role === "worker" && PLATFORM_WALLET ? calculateFees(gross).platformFee : 0n;
+
+    return {
+      role: allocation.role,
+      wallet: allocation.wallet,
+      percent: allocation.percent,
+      grossAtomic: gross.toString(),
+      feeAtomic: fee.toString(),
+      netAtomic: (gross - fee).toString(),
+    };
+  });
 }
 
 function rowToEscrow(row: any): EscrowRecord {
@@ -26,11 +125,15 @@ function rowToEscrow(row: any): EscrowRecord {
     requesterWallet: row.requester_wallet,
     workerWallet: row.worker_wallet,
     amountAtomic: BigInt(row.amount_atomic),
+    mint: row.mint ?? getPaymentToken(null).mint.toBase58(),
     depositTxSig: row.deposit_tx_sig,
     depositVerifiedAt: new Date(row.deposit_verified_at),
     status: row.status,
     releaseTxSig: row.release_tx_sig,
     releasedAt: row.released_at ? new Date(row.released_at) : null,
+    settlement: row.settlement ?? null,
+    pendingTxSig: row.pending_tx_sig ?? null,
+    pendingSince: row.pending_since ? new Date(row.pending_since) : null,
   };
 }
 
@@ -60,19 +163,43 @@ export class EscrowService {
     return !!this.escrowKeypair;
   }
 
+  // Unsigned deposit transaction for the requester to sign: the bounty to the
+  // escrow wallet with the job's reference attached
+  async buildDepositTx(job: Job): Promise<{ transaction: string; lastValidBlockHeight: number }> {
+    const { tx, lastValidBlockHeight } = await buildTokenTransferTx(
+      new PublicKey(job.requesterWallet),
+      [{ recipient: ESCROW_WALLET, amountAtomic: job.bountyAtomic }],
+      { token: getPaymentToken(job.bountyMint), reference: job.depositReference ?? undefined }
+    );
+    return { transaction: serializeUnsignedTx(tx), lastValidBlockHeight };
+  }
+
+  // Solana Pay transfer request that funds a job's escrow from any mobile wallet
+  getDepositRequestUrl(job: Job): string {
+    const token = getPaymentToken(job.bountyMint);
+    return buildTransferRequestUrl({
+      recipient: ESCROW_WALLET,
+      amountAtomic: job.bountyAtomic,
+      splToken: isNativeSol(token) ? undefined : token.mint.toBase58(),
+      decimals: token.decimals,
+      reference: job.depositReference ?? undefined,
+      label: "AgentWork Marketplace",
+      message: `Escrow deposit for "${job.title.slice(0, 80)}"`,
+      memo: `agentwork:${job.id}`,
+    });
+  }
+
+  // Verify that a transaction deposits the job's bounty, in the job's mint and
+  // with its reference, into escrow, then record the escrow and open the job
+  // together. `retryable` marks failures that may pass on a later attempt.
   async verifyDeposit(
-    jobId: string,
-    requesterWallet: string,
-    expectedAmountAtomic: bigint,
+    job: Job,
     depositTxSig: string
-  ): Promise<{ success: boolean; error?: string }> {
-    // Check if deposit tx already used
-    const usedTx = await queryOne(
-      `SELECT tx_sig FROM used_deposit_txs WHERE tx_sig = $1`,
-      [depositTxSig]
-    );
-    if (usedTx) {
-      return { success: false, error: "Deposit transaction already used" };
+  ): Promise<{ success: boolean; job?: Job; error?: string; mismatches?: string[]; retryable?: boolean }> {
+    const { id: jobId, requesterWallet, bountyAtomic: expectedAmountAtomic } = job;
+    const token = jobToken(job);
+    if (!token) {
+      return { success: false, error: "Bounty mint is no longer an accepted payment token" };
     }
 
     // Check if job already has escrow
@@ -84,193 +211,449 @@ export class EscrowService {
       return { success: false, error: "Job already has escrow deposit" };
     }
 
-    try {
-      const verified = await verifyUsdcTransfer(
-        depositTxSig,
-        requesterWallet,
-        ESCROW_WALLET,
-        expectedAmountAtomic
-      );
+    // Claim the tx before verifying so concurrent requests can't both use it
+    if (!await claimTransaction(depositTxSig, "deposit", jobId)) {
+      return { success: false, error: "Deposit transaction already used" };
+    }
 
-      if (!verified) {
-        return { success: false, error: "Deposit not verified - check amount and recipient" };
+    try {
+      const verdict = await verifyTokenTransfer(depositTxSig, {
+        token,
+        sender: requesterWallet,
+        recipient: ESCROW_WALLET,
+        amountAtomic: expectedAmountAtomic,
+        reference: job.depositReference ?? undefined,
+      });
+
+      if (!verdict.valid) {
+        await releaseTransaction(depositTxSig, "deposit");
+        return {
+          success: false,
+          error: `Deposit not verified - ${verdict.reason}`,
+          mismatches: verdict.mismatches,
+          retryable: RETRYABLE_VERIFY_REASONS.has(verdict.reason ?? ""),
+        };
       }
 
-      // Create escrow record
-      await query(
-        `INSERT INTO escrow_records (job_id, requester_wallet, amount_atomic, deposit_tx_sig, status)
-         VALUES ($1, $2, $3, $4, 'held')`,
-        [jobId, requesterWallet, expectedAmountAtomic.toString(), depositTxSig]
-      );
+      // Escrow record, job activation and the deposit's ledger entries commit
+      // together, so a job never holds an escrow deposit while still pending one
+      const activated = await withTransaction(async (client) => {
+        const activatedJob = await activateJob(jobId, depositTxSig, client);
+        if (!activatedJob) return null;
 
-      // Mark tx as used
-      await query(
-        `INSERT INTO used_deposit_txs (tx_sig) VALUES ($1)`,
-        [depositTxSig]
-      );
+        await client.query(
+          `INSERT INTO escrow_records (job_id, requester_wallet, amount_atomic, mint, deposit_tx_sig, status)
+           VALUES ($1, $2, $3, $4, $5, 'held')`,
+          [jobId, requesterWallet, expectedAmountAtomic.toString(), job.bountyMint, depositTxSig]
+        );
+        await ledgerService.recordDeposit(jobId, requesterWallet, expectedAmountAtomic, job.bountyMint, depositTxSig, client);
+        return activatedJob;
+      });
+
+      if (!activated) {
+        // Cancelled or activated elsewhere since the job was read
+        await releaseTransaction(depositTxSig, "deposit");
+        return { success: false, error: "Job not pending deposit" };
+      }
 
       console.log(`Escrow verified for job ${jobId}: ${expectedAmountAtomic} atomic units`);
-      return { success: true };
+      return { success: true, job: activated };
 
     } catch (error) {
       console.error("Escrow verification error:", error);
-      return { success: false, error: "Verification failed" };
+      await releaseTransaction(depositTxSig, "deposit").catch(() => {});
+      return { success: false, error: "Verification failed", retryable: true };
     }
   }
 
   async releaseToWorker(
     jobId: string,
     workerWallet: string
-  ): Promise<{ success: boolean; txSig?: string; error?: string }> {
-    const record = await this.getEscrow(jobId);
+  ): Promise<SettlementResult> {
+    return this.settle(jobId, [{ role: "worker", wallet: workerWallet, percent: 100 }]);
+  }
 
+  async refundToRequester(jobId: string): Promise<SettlementResult> {
+    const record = await this.getEscrow(jobId);
     if (!record) {
       return { success: false, error: "No escrow record found" };
     }
+    return this.settle(jobId, [{ role: "requester", wallet: record.requesterWallet, percent: 100 }]);
+  }
 
-    if (record.status !== "held") {
-      return { success: false, error: `Escrow already ${record.status}` };
+  // Pay workerPercent of the bounty to the worker and refund the rest to the requester
+  async splitPayout(
+    jobId: string,
+    workerWallet: string,
+    workerPercent: number
+  ): Promise<SettlementResult> {
+    const record = await this.getEscrow(jobId);
+    if (!record) {
+      return { success: false, error: "No escrow record found" };
     }
+    return this.settle(jobId, [
+      { role: "worker", wallet: workerWallet, percent: workerPercent },
+      { role: "requester", wallet: record.requesterWallet, percent: 100 - workerPercent },
+    ]);
+  }
 
-    if (!this.escrowKeypair) {
+  /**
+   * Settle a held escrow across worker and requester in one signed transaction.
+   * Percentages must total 100. The platform fee is taken only from the worker's
+   * portion; requester refunds are fee-free. The resulting breakdown is stored
+   * on the escrow record.
+   *
+   * Crash safety: the transaction is built and signed first (its RPC calls
+   * happen outside any DB transaction), then the record is locked, its
+   * status re-checked, and a "releasing" intent (with the pre-computed
+   * signature) committed before anything is sent. If the process dies after
+   * that point, recoverPendingSettlements() checks the chain and finalizes
+   * or reverts. A transaction signed for a record that changed meanwhile is
+   * simply never sent.
+   */
+  async settle(jobId: string, allocations: SettlementAllocation[]): Promise<SettlementResult> {
+    const escrowKeypair = this.escrowKeypair;
+    if (!escrowKeypair) {
       return { success: false, error: "Escrow wallet not configured for releases" };
     }
 
+    let intent: SettlementIntent;
     try {
-      const conn = getConnection();
-      const { workerAmount, platformFee } = calculateFees(record.amountAtomic);
+      const record = await this.getEscrow(jobId);
+      if (!record) {
+        return { success: false, error: "No escrow record found" };
+      }
+      if (record.status !== "held") {
+        return { success: false, error: `Escrow already ${record.status}` };
+      }
 
-      const tx = new Transaction();
+      const breakdown = computeSettlement(record.amountAtomic, allocations);
+      if (!breakdown) {
+        return { success: false, error: "Invalid allocations - percentages must be positive and total 100" };
+      }
 
-      const escrowAta = await getAssociatedTokenAddress(
-        USDC_MINT_DEVNET,
-        this.escrowKeypair.publicKey
+      const { tx, lastValidBlockHeight } = await this.buildSettlementTx(
+        escrowKeypair,
+        getPaymentToken(record.mint),
+        breakdown
       );
+      const worker = breakdown.find((leg) => leg.role === "worker");
+      const finalStatus: FinalEscrowStatus = !worker ? "refunded" : breakdown.length === 1 ? "released" : "split";
+
+      const pending: SettlementIntent = {
+        jobId,
+        txSig: bs58.encode(tx.signature!),
+        serializedTx: tx.serialize().toString("base64"),
+        mint: record.mint,
+        finalStatus,
+        settlement: breakdown,
+        lastValidBlockHeight,
+      };
+
+      const prepared = await withTransaction(async (client) => {
+        const { rows } = await client.query(
+          `SELECT * FROM escrow_records WHERE job_id = $1 FOR UPDATE`,
+          [jobId]
+        );
+        if (!rows[0]) {
+          return { error: "No escrow record found" };
+        }
+
+        // Settled, frozen or re-settled while the transaction was being built
+        const locked = rowToEscrow(rows[0]);
+        if (locked.status !== "held") {
+          return { error: `Escrow already ${locked.status}` };
+        }
+        if (locked.amountAtomic !== record.amountAtomic || locked.mint !== record.mint) {
+          return { error: "Escrow changed during settlement - retry" };
+        }
+
+        await client.query(
+          `UPDATE escrow_records
+           SET status = 'releasing', pending_tx_sig = $1, pending_tx = $2, pending_status = $3,
+               pending_settlement = $4, pending_last_valid_block_height = $5, pending_since = NOW()
+           WHERE job_id = $6`,
+          [pending.txSig, pending.serializedTx, finalStatus, JSON.stringify(breakdown), lastValidBlockHeight, jobId]
+        );
+
+        return { intent: pending };
+      });
+
+      if ("error" in prepared) {
+        return { success: false, error: prepared.error };
+      }
+      intent = prepared.intent!;
+    } catch (error: any) {
+      console.error("Escrow settlement prepare error for job", jobId, ":", error?.message || error);
+      return { success: false, error: `Settlement failed: ${error?.message || "Unknown error"}` };
+    }
+
+    try {
+      const conn = getConnection();
+      await conn.sendRawTransaction(Buffer.from(intent.serializedTx, "base64"));
+      await conn.confirmTransaction(intent.txSig, "confirmed");
+    } catch (error: any) {
+      console.error("Escrow settlement send error for job", jobId, ":", error?.message || error);
+      if (error?.logs) console.error("Logs:", error.logs);
+
+      // The transaction may still land; let the chain decide
+      const outcome = await this.resolveIntent(intent).catch(() => "pending" as const);
+      if (outcome !== "finalized") {
+        return {
+          success: false,
+          error: outcome === "pending"
+            ? "Settlement pending confirmation - will be finalized by recovery"
+            : `Settlement failed: ${error?.message || "Unknown error"}`,
+        };
+      }
+      return { success: true, txSig: intent.txSig, settlement: intent.settlement };
+    }
 
-      const workerPubkey = new PublicKey(workerWallet);
-      const workerAta = await getAssociatedTokenAddress(USDC_MINT_DEVNET, workerPubkey);
+    try {
+      await this.finalizeIntent(intent);
+    } catch (error) {
+      // The payout landed; the escrow stays "releasing" until recovery books it
+      console.error("Escrow settlement finalize error for job", jobId, ":", error);
+    }
+    return { success: true, txSig: intent.txSig, settlement: intent.settlement };
+  }
+
+  /**
+   * Resolve settlements left "releasing" by a crash or an unconfirmed send.
+   * Landed transactions are finalized; failed or expired ones return the
+   * escrow to "held"; still-valid ones are rebroadcast (same signature).
+   */
+  async recoverPendingSettlements(): Promise<Array<{ jobId: string; outcome: "finalized" | "reverted" | "pending"; txSig: string }>> {
+    const rows = await query<any>(`SELECT * FROM escrow_records WHERE status = 'releasing'`);
+    const outcomes: Array<{ jobId: string; outcome: "finalized" | "reverted" | "pending"; txSig: string }> = [];
+
+    for (const row of rows) {
+      const intent: SettlementIntent = {
+        jobId: row.job_id,
+        txSig: row.pending_tx_sig,
+        serializedTx: row.pending_tx,
+        mint: row.mint ?? getPaymentToken(null).mint.toBase58(),
+        finalStatus: row.pending_status,
+        settlement: row.pending_settlement,
+        lastValidBlockHeight: Number(row.pending_last_valid_block_height),
+      };
 
-      // Create worker ATA if it doesn't exist
       try {
-        await getAccount(conn, workerAta);
-      } catch {
-        tx.add(
-          createAssociatedTokenAccountInstruction(
-            this.escrowKeypair.publicKey,
-            workerAta,
-            workerPubkey,
-            USDC_MINT_DEVNET
-          )
-        );
+        const outcome = await this.resolveIntent(intent, true);
+        console.log(`Settlement recovery for job ${intent.jobId}: ${outcome} (${intent.txSig})`);
+        outcomes.push({ jobId: intent.jobId, outcome, txSig: intent.txSig });
+      } catch (error) {
+        console.error(`Settlement recovery failed for job ${intent.jobId}:`, error);
       }
+    }
 
-      tx.add(
-        createTransferInstruction(
-          escrowAta,
-          workerAta,
-          this.escrowKeypair.publicKey,
-          workerAmount
-        )
-      );
+    return outcomes;
+  }
 
-      if (PLATFORM_WALLET && platformFee > 0n) {
-        const platformPubkey = new PublicKey(PLATFORM_WALLET);
-        const platformAta = await getAssociatedTokenAddress(USDC_MINT_DEVNET, platformPubkey);
+  // Check the chain for an intent's signature and finalize, revert, or leave pending
+  private async resolveIntent(
+    intent: SettlementIntent,
+    rebroadcast: boolean = false
+  ): Promise<"finalized" | "reverted" | "pending"> {
+    const conn = getConnection();
+    const { value } = await conn.getSignatureStatuses([intent.txSig], { searchTransactionHistory: true });
+    const status = value[0];
+
+    if (status?.err) {
+      await this.revertIntent(intent);
+      return "reverted";
+    }
 
-        tx.add(
-          createTransferInstruction(
-            escrowAta,
-            platformAta,
-            this.escrowKeypair.publicKey,
-            platformFee
-          )
-        );
+    if (status && (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized")) {
+      await this.finalizeIntent(intent);
+      return "finalized";
+    }
+
+    if (!status) {
+      const blockHeight = await conn.getBlockHeight("confirmed");
+      if (blockHeight > intent.lastValidBlockHeight) {
+        // Blockhash expired without the transaction landing - it never will
+        await this.revertIntent(intent);
+        return "reverted";
       }
+      if (rebroadcast) {
+        await conn.sendRawTransaction(Buffer.from(intent.serializedTx, "base64"), { skipPreflight: true });
+      }
+    }
 
-      const { blockhash } = await conn.getLatestBlockhash();
-      tx.recentBlockhash = blockhash;
-      tx.feePayer = this.escrowKeypair.publicKey;
-      tx.sign(this.escrowKeypair);
+    return "pending";
+  }
 
-      const txSig = await conn.sendRawTransaction(tx.serialize());
-      await conn.confirmTransaction(txSig, "confirmed");
+  // The status change, platform fee and ledger entries commit together; if any
+  // fails the escrow stays "releasing" and recovery finalizes it again
+  private async finalizeIntent(intent: SettlementIntent): Promise<void> {
+    const worker = intent.settlement.find((leg) => leg.role === "worker");
+    const totalFee = intent.settlement.reduce((sum, leg) => sum + BigInt(leg.feeAtomic), 0n);
 
-      // Update record in DB
-      await query(
+    await withTransaction(async (client) => {
+      await client.query(
         `UPDATE escrow_records
-         SET status = 'released', worker_wallet = $1, release_tx_sig = $2, released_at = NOW()
-         WHERE job_id = $3`,
-        [workerWallet, txSig, jobId]
+         SET status = pending_status, worker_wallet = COALESCE($1, worker_wallet),
+             release_tx_sig = pending_tx_sig, released_at = NOW(), settlement = pending_settlement,
+             pending_tx_sig = NULL, pending_tx = NULL, pending_status = NULL,
+             pending_settlement = NULL, pending_last_valid_block_height = NULL, pending_since = NULL
+         WHERE job_id = $2 AND status = 'releasing' AND pending_tx_sig = $3`,
+        [worker?.wallet ?? null, intent.jobId, intent.txSig]
       );
 
-      console.log(`Escrow released for job ${jobId}: ${workerAmount} to worker, ${platformFee} to platform`);
-      return { success: true, txSig };
+      if (totalFee > 0n) {
+        await recordPlatformFee(intent.jobId, "escrow", totalFee, intent.mint, intent.txSig, client);
+      }
+      await ledgerService.recordSettlement(
+        intent.finalStatus === "released" ? "release" : intent.finalStatus === "refunded" ? "refund" : "split",
+        intent.jobId,
+        intent.mint,
+        intent.settlement.map((leg) => ({
+          wallet: leg.wallet,
+          grossAtomic: BigInt(leg.grossAtomic),
+          feeAtomic: BigInt(leg.feeAtomic),
+        })),
+        intent.txSig,
+        client
+      );
+    });
 
-    } catch (error: any) {
-      console.error("Escrow release error for job", jobId, ":", error?.message || error);
-      if (error?.logs) console.error("Logs:", error.logs);
-      return { success: false, error: `Release failed: ${error?.message || "Unknown error"}` };
-    }
+    console.log(
+      `Escrow ${intent.finalStatus} for job ${intent.jobId}: ` +
+      intent.settlement.map((leg) => `${leg.netAtomic} to ${leg.role}`).join(", ") +
+      (totalFee > 0n ? `, ${totalFee} to platform` : "")
+    );
   }
 
-  async refundToRequester(jobId: string): Promise<{ success: boolean; txSig?: string; error?: string }> {
-    const record = await this.getEscrow(jobId);
+  private async revertIntent(intent: SettlementIntent): Promise<void> {
+    await query(
+      `UPDATE escrow_records
+       SET status = 'held',
+           pending_tx_sig = NULL, pending_tx = NULL, pending_status = NULL,
+           pending_settlement = NULL, pending_last_valid_block_height = NULL, pending_since = NULL
+       WHERE job_id = $1 AND status = 'releasing' AND pending_tx_sig = $2`,
+      [intent.jobId, intent.txSig]
+    );
+    console.warn(`Settlement for job ${intent.jobId} did not land (${intent.txSig}); escrow back to held`);
+  }
 
-    if (!record) {
-      return { success: false, error: "No escrow record found" };
-    }
+  /**
+   * Lamports the escrow wallet can spend on fees and rent: its SOL balance
+   * minus escrowed SOL bounties and the fee reserve. SOL payouts come out of
+   * the escrowed part, so only fees and new token accounts draw on this.
+   */
+  async getSpendableReserve(): Promise<{ balance: bigint; held: bigint; spendable: bigint }> {
+    const balance = BigInt(await getConnection().getBalance(new PublicKey(ESCROW_WALLET), "confirmed"));
+    const held = await this.getTotalHeld(NATIVE_SOL_TOKEN.mint.toBase58());
+    return { balance, held, spendable: balance - held - ESCROW_SOL_RESERVE_LAMPORTS };
+  }
 
-    if (record.status !== "held") {
-      return { success: false, error: `Escrow already ${record.status}` };
+  // Build and sign the settlement transaction: each allocation's net amount plus the platform fee
+  private async buildSettlementTx(
+    escrowKeypair: Keypair,
+    token: PaymentToken,
+    breakdown: SettlementLeg[]
+  ): Promise<{ tx: Transaction; lastValidBlockHeight: number }> {
+    const conn = getConnection();
+    const tx = new Transaction();
+    // Rent for token accounts the escrow wallet opens for recipients
+    let rentLamports = 0n;
+
+    const escrowAta = await getTokenAccountAddress(token, escrowKeypair.publicKey);
+
+    const legs: Array<{ wallet: string; amount: bigint }> = breakdown
+      .filter((leg) => BigInt(leg.netAtomic) > 0n)
+      .map((leg) => ({ wallet: leg.wallet, amount: BigInt(leg.netAtomic) }));
+
+    const totalFee = breakdown.reduce((sum, leg) => sum + BigInt(leg.feeAtomic), 0n);
+    if (totalFee > 0n) {
+      legs.push({ wallet: PLATFORM_WALLET, amount: totalFee });
     }
 
-    if (!this.escrowKeypair) {
-      return { success: false, error: "Escrow wallet not configured" };
-    }
+    for (const leg of legs) {
+      const recipient = new PublicKey(leg.wallet);
 
-    try {
-      const conn = getConnection();
+      if (isNativeSol(token)) {
+        await checkRentExemptTransfer(recipient, leg.amount);
+        tx.add(
+          SystemProgram.transfer({
+            fromPubkey: escrowKeypair.publicKey,
+            toPubkey: recipient,
+            lamports: leg.amount,
+          })
+        );
+        continue;
+      }
 
-      const escrowAta = await getAssociatedTokenAddress(
-        USDC_MINT_DEVNET,
-        this.escrowKeypair.publicKey
-      );
+      const recipientAta = await getTokenAccountAddress(token, recipient);
 
-      const requesterPubkey = new PublicKey(record.requesterWallet);
-      const requesterAta = await getAssociatedTokenAddress(USDC_MINT_DEVNET, requesterPubkey);
+      // Create recipient ATA if it doesn't exist
+      if (!(await conn.getAccountInfo(recipientAta))) {
+        // Token-2022 associated accounts carry the immutable owner extension
+        const accountSize = token.programId.equals(TOKEN_2022_PROGRAM_ID)
+          ? getAccountLen([ExtensionType.ImmutableOwner])
+          : ACCOUNT_SIZE;
+        rentLamports += BigInt(await conn.getMinimumBalanceForRentExemption(accountSize));
+        tx.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            escrowKeypair.publicKey,
+            recipientAta,
+            recipient,
+            token.mint,
+            token.programId
+          )
+        );
+      }
 
-      const tx = new Transaction().add(
-        createTransferInstruction(
+      tx.add(
+        createTransferCheckedInstruction(
           escrowAta,
-          requesterAta,
-          this.escrowKeypair.publicKey,
-          record.amountAtomic
+          token.mint,
+          recipientAta,
+          escrowKeypair.publicKey,
+          leg.amount,
+          token.decimals,
+          [],
+          token.programId
         )
       );
+    }
 
-      const { blockhash } = await conn.getLatestBlockhash();
-      tx.recentBlockhash = blockhash;
-      tx.feePayer = this.escrowKeypair.publicKey;
-      tx.sign(this.escrowKeypair);
+    const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash();
+    tx.recentBlockhash = blockhash;
+    tx.feePayer = escrowKeypair.publicKey;
+
+    const { value: fee } = await conn.getFeeForMessage(tx.compileMessage(), "confirmed");
+    const cost = BigInt(fee ?? 0) + rentLamports;
+    const { spendable } = await this.getSpendableReserve();
+    if (spendable < cost) {
+      throw new Error(
+        `Escrow wallet SOL is too low to settle: needs ${cost} lamports for fees and rent ` +
+        `above the ${ESCROW_SOL_RESERVE_LAMPORTS}-lamport reserve and escrowed SOL (${spendable} available)`
+      );
+    }
 
-      const txSig = await conn.sendRawTransaction(tx.serialize());
-      await conn.confirmTransaction(txSig, "confirmed");
+    tx.sign(escrowKeypair);
 
-      // Update record
-      await query(
-        `UPDATE escrow_records
-         SET status = 'refunded', release_tx_sig = $1, released_at = NOW()
-         WHERE job_id = $2`,
-        [txSig, jobId]
-      );
+    return { tx, lastValidBlockHeight };
+  }
 
-      console.log(`Escrow refunded for job ${jobId}: ${record.amountAtomic} to requester`);
-      return { success: true, txSig };
+  // Freeze a held escrow while its job is under arbitration
+  async freeze(jobId: string): Promise<boolean> {
+    const rows = await query(
+      `UPDATE escrow_records SET status = 'disputed' WHERE job_id = $1 AND status = 'held' RETURNING job_id`,
+      [jobId]
+    );
+    return rows.length > 0;
+  }
 
-    } catch (error) {
-      console.error("Escrow refund error:", error);
-      return { success: false, error: "Refund transaction failed" };
-    }
+  // Return a frozen escrow to held so a resolution can move the funds
+  async unfreeze(jobId: string): Promise<boolean> {
+    const rows = await query(
+      `UPDATE escrow_records SET status = 'held' WHERE job_id = $1 AND status = 'disputed' RETURNING job_id`,
+      [jobId]
+    );
+    return rows.length > 0;
   }
 
   async getEscrow(jobId: string): Promise<EscrowRecord | null> {
@@ -291,9 +674,12 @@ export class EscrowService {
     return rows.map(rowToEscrow);
   }
 
-  async getTotalHeld(): Promise<bigint> {
+  // Atomic amount held in escrow for one mint; amounts of different mints never add up
+  async getTotalHeld(mint: string): Promise<bigint> {
     const row = await queryOne<{ total: string }>(
-      `SELECT COALESCE(SUM(amount_atomic), 0) as total FROM escrow_records WHERE status = 'held'`
+      `SELECT COALESCE(SUM(amount_atomic), 0) as total FROM escrow_records
+       WHERE status IN ('held', 'disputed', 'releasing') AND mint = $1`,
+      [mint]
     );
     return BigInt(row?.total || "0");
   }
@@ -0,0 +1,102 @@
+import {
+  expireOverdueJobs,
+  listRefundableWithHeldEscrow,
+  listReviewOverdue,
+  releaseStaleClaims,
+} from "../models/job.js";
+import { deleteExpiredNonces } from "../models/request-nonce.js";
+import { authService } from "./auth-service.js";
+import { EXPIRY_SWEEP_INTERVAL_MS, WsEventType } from "../config/constants.js";
+import { escrowService } from "./escrow-service.js";
+import { jobService } from "./job-service.js";
+import { wsHub } from "../server/websocket/hub.js";
+
+export class ExpiryService {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  start(intervalMs: number = EXPIRY_SWEEP_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error("Expiry sweep failed:", error));
+    }, intervalMs);
+
+    console.log(`Job expiry scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Recover in-flight settlements, reopen abandoned claims, auto-approve results past their review window,
+  // expire overdue OPEN jobs, then refund any expired or rejected job still
+  // holding escrow. Jobs are marked EXPIRED first so they can no longer be
+  // claimed mid-refund; failed refunds are retried on the next sweep. Expired
+  // signed-request nonces and sign-in challenges are pruned last.
+  async sweep(): Promise<{ unclaimed: number; approved: number; expired: number; refunded: number }> {
+    if (this.sweeping) {
+      return { unclaimed: 0, approved: 0, expired: 0, refunded: 0 };
+    }
+    this.sweeping = true;
+
+    try {
+      // Settle anything left in flight before touching escrow again
+      await jobService.recoverSettlements();
+
+      const reopened = await releaseStaleClaims();
+      for (const { job, abandonedBy } of reopened) {
+        console.log(`Job ${job.id} reopened: claim by ${abandonedBy} timed out`);
+        wsHub.broadcastJobUnclaimed(job);
+        wsHub.notifyWallet(abandonedBy, WsEventType.JOB_UNCLAIMED, {
+          jobId: job.id,
+          reason: "Claim deadline passed without a result",
+        });
+      }
+
+      let approved = 0;
+      const overdueReviews = await listReviewOverdue();
+      for (const job of overdueReviews) {
+        try {
+          const paidJob = await jobService.approve(job.id, null);
+          if (paidJob) {
+            approved++;
+            console.log(`Job ${job.id} auto-approved after review window`);
+            wsHub.broadcastJobPaid(paidJob);
+          }
+        } catch (error) {
+          console.error(`Auto-approval failed for job ${job.id}:`, error);
+        }
+      }
+
+      const expiredJobs = await expireOverdueJobs();
+      for (const job of expiredJobs) {
+        console.log(`Job ${job.id} expired at ${job.expiresAt?.toISOString()}`);
+        wsHub.broadcastJobExpired(job);
+      }
+
+      let refunded = 0;
+      const pendingRefunds = await listRefundableWithHeldEscrow();
+      for (const job of pendingRefunds) {
+        const result = await escrowService.refundToRequester(job.id);
+        if (result.success) {
+          refunded++;
+        } else {
+          console.error(`Expiry refund failed for job ${job.id}:`, result.error);
+        }
+      }
+
+      await deleteExpiredNonces();
+      await authService.pruneExpiredChallenges();
+
+      return { unclaimed: reopened.length, approved, expired: expiredJobs.length, refunded };
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
+
+export const expiryService = new ExpiryService();
@@ -0,0 +1,351 @@
+import { PublicKey, SendTransactionError, Transaction, VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import { getConnection } from "../solana/client.js";
+import { decodeTokenTransfers, getTokenAccountAddress, verifyTokenTransfer } from "../solana/token.js";
+import { X402_FACILITATOR_URL } from "../config/constants.js";
+import { findPaymentToken, PaymentToken } from "../config/tokens.js";
+import type {
+  X402Breakdown,
+  X402PaymentPayload,
+  X402PaymentRequirements,
+  X402SettlementResponse,
+} from "./payment-service.js";
+
+// Facilitator /verify response
+export interface X402VerifyResponse {
+  isValid: boolean;
+  invalidReason: string | null;
+  payer: string | null;
+}
+
+/**
+ * Verifies and settles x402 payments on behalf of the paywall. `verify` must
+ * not move funds; `settle` submits the payment and reports where it landed.
+ */
+export interface Facilitator {
+  readonly name: string;
+  verify(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402VerifyResponse>;
+  settle(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402SettlementResponse>;
+}
+
+export interface PaymentLeg {
+  recipient: string;
+  amountAtomic: bigint;
+}
+
+// Transfers a payment must contain: the worker's share, plus the platform fee
+// when the requirements advertise a breakdown
+export function paymentLegs(requirements: X402PaymentRequirements): { worker: PaymentLeg; platform: PaymentLeg | null } {
+  const breakdown = requirements.extra?.breakdown as X402Breakdown | undefined;
+  if (!breakdown) {
+    return {
+      worker: { recipient: requirements.payTo, amountAtomic: BigInt(requirements.maxAmountRequired) },
+      platform: null,
+    };
+  }
+
+  return {
+    worker: { recipient: breakdown.worker.address, amountAtomic: BigInt(breakdown.worker.amount) },
+    platform: { recipient: breakdown.platform.address, amountAtomic: BigInt(breakdown.platform.amount) },
+  };
+}
+
+/**
+ * Check that a signed payment pays every leg: the worker's share and, when the
+ * requirements carry a breakdown, the platform fee. Each leg must be its own
+ * transfer of the exact amount into the recipient's account for the asset,
+ * under the asset's token program, signed by the payer. Returns why the
+ * payment falls short, or null when it is complete.
+ */
+export async function checkPaymentLegs(
+  tx: Transaction,
+  payer: string,
+  requirements: X402PaymentRequirements
+): Promise<string | null> {
+  const token = findPaymentToken(requirements.asset);
+  if (!token) {
+    return `Unsupported asset ${requirements.asset}`;
+  }
+
+  const { worker, platform } = paymentLegs(requirements);
+  const transfers = decodeTokenTransfers(tx);
+  const used = new Set<number>();
+  const programId = token.programId.toBase58();
+
+  const pays = async (leg: PaymentLeg): Promise<boolean> => {
+    const destination = (
+      await getTokenAccountAddress(token, new PublicKey(leg.recipient))
+    ).toBase58();
+
+    const index = transfers.findIndex((transfer, i) =>
+      !used.has(i) &&
+      transfer.programId === programId &&
+      transfer.destination === destination &&
+      transfer.authority === payer &&
+      transfer.amountAtomic === leg.amountAtomic &&
+      (transfer.mint === null || transfer.mint === requirements.asset)
+    );
+    if (index === -1) return false;
+    used.add(index);
+    return true;
+  };
+
+  if (!(await pays(worker))) {
+    return `Missing worker transfer of ${worker.amountAtomic} to ${worker.recipient} signed by ${payer}`;
+  }
+  if (platform && platform.amountAtomic > 0n && !(await pays(platform))) {
+    return `Missing platform fee transfer of ${platform.amountAtomic} to ${platform.recipient}; ` +
+      `the payment must include both the worker and platform transfers`;
+  }
+  return null;
+}
+
+function invalid(invalidReason: string, payer: string | null = null): X402VerifyResponse {
+  return { isValid: false, invalidReason, payer };
+}
+
+// Verifies payments against the chain and submits them through our own RPC
+export class LocalFacilitator implements Facilitator {
+  readonly name = "local";
+
+  async verify(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402VerifyResponse> {
+    const { verdict, buffer } = await this.inspect(payload, requirements);
+    if (!verdict.isValid || !buffer) return verdict;
+
+    // Dry-run the transaction so a payer without funds fails before anything is served
+    try {
+      const simulation = await getConnection().simulateTransaction(
+        VersionedTransaction.deserialize(buffer),
+        { sigVerify: true, commitment: "confirmed" }
+      );
+      if (simulation.value.err) {
+        return invalid(`Simulation failed: ${JSON.stringify(simulation.value.err)}`, verdict.payer);
+      }
+    } catch (error) {
+      console.error("Payment simulation failed:", error);
+      return invalid("Simulation error", verdict.payer);
+    }
+
+    return verdict;
+  }
+
+  async settle(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402SettlementResponse> {
+    const { verdict, buffer, token, signature } = await this.inspect(payload, requirements);
+    const failed = (errorReason: string, transaction = ""): X402SettlementResponse => ({
+      success: false,
+      transaction,
+      network: requirements.network,
+      payer: verdict.payer,
+      errorReason,
+    });
+
+    if (!verdict.isValid || !buffer || !token) {
+      return failed(verdict.invalidReason ?? "Invalid payment");
+    }
+
+    const conn = getConnection();
+    let txSig: string;
+    try {
+      txSig = await conn.sendRawTransaction(buffer, {
+        skipPreflight: false,
+        preflightCommitment: "confirmed",
+      });
+    } catch (error) {
+      console.error("Payment submission failed:", error);
+      // Only an RPC error answer means the node turned the transaction away
+      // (preflight); after a timeout it may still land, so report its signature
+      return failed("Transaction submission failed", error instanceof SendTransactionError ? "" : signature ?? "");
+    }
+
+    try {
+      await conn.confirmTransaction(txSig, "confirmed");
+    } catch (error) {
+      console.error("Payment confirmation failed:", error);
+      return failed("Transaction not confirmed", txSig);
+    }
+
+    // The transaction landed; make sure every transfer did too
+    const { worker, platform } = paymentLegs(requirements);
+    const legs = platform && platform.amountAtomic > 0n ? [worker, platform] : [worker];
+    for (const leg of legs) {
+      const onChain = await verifyTokenTransfer(txSig, {
+        token,
+        sender: verdict.payer!,
+        recipient: leg.recipient,
+        amountAtomic: leg.amountAtomic,
+      });
+      if (!onChain.valid) {
+        return failed(onChain.reason ?? "Transfer not found on-chain", txSig);
+      }
+    }
+
+    return { success: true, transaction: txSig, network: requirements.network, payer: verdict.payer };
+  }
+
+  // Offline checks shared by verify and settle: envelope, signatures and transfer legs
+  private async inspect(
+    payload: X402PaymentPayload,
+    requirements: X402PaymentRequirements
+  ): Promise<{
+    verdict: X402VerifyResponse;
+    buffer: Buffer | null;
+    token: PaymentToken | null;
+    signature: string | null;
+  }> {
+    const reject = (reason: string, payer: string | null = null) => ({
+      verdict: invalid(reason, payer),
+      buffer: null,
+      token: null,
+      signature: null,
+    });
+
+    if (payload.scheme !== requirements.scheme || payload.network !== requirements.network) {
+      return reject(`Payment is not for ${requirements.scheme} on ${requirements.network}`);
+    }
+    const token = findPaymentToken(requirements.asset);
+    if (!token) {
+      return reject(`Unsupported asset ${requirements.asset}`);
+    }
+
+    let buffer: Buffer;
+    let tx: Transaction;
+    try {
+      buffer = Buffer.from(payload.payload.transaction, "base64");
+      tx = Transaction.from(buffer);
+    } catch {
+      return reject("Malformed transaction");
+    }
+
+    const payer = tx.feePayer?.toBase58() ?? null;
+    if (!payer) {
+      return reject("Transaction has no fee payer");
+    }
+    if (!tx.verifySignatures()) {
+      return reject("Transaction is not fully signed", payer);
+    }
+
+    const shortfall = await checkPaymentLegs(tx, payer, requirements);
+    if (shortfall) {
+      return reject(shortfall, payer);
+    }
+
+    return {
+      verdict: { isValid: true, invalidReason: null, payer },
+      buffer,
+      token,
+      signature: tx.signature ? bs58.encode(tx.signature) : null,
+    };
+  }
+}
+
+// Delegates to an x402 facilitator service over HTTP (POST {url}/verify, {url}/settle)
+export class RemoteFacilitator implements Facilitator {
+  readonly name: string;
+
+  constructor(private baseUrl: string) {
+    this.name = baseUrl;
+  }
+
+  async verify(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402VerifyResponse> {
+    const body = await this.post("/verify", payload, requirements);
+    return {
+      isValid: body.isValid === true,
+      invalidReason: body.invalidReason ?? null,
+      payer: body.payer ?? null,
+    };
+  }
+
+  async settle(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402SettlementResponse> {
+    const body = await this.post("/settle", payload, requirements);
+    return {
+      success: body.success === true,
+      // Older facilitators answer with txHash/networkId/error
+      transaction: body.transaction ?? body.txHash ?? "",
+      network: body.network ?? body.networkId ?? requirements.network,
+      payer: body.payer ?? null,
+      ...(body.errorReason ?? body.error ? { errorReason: body.errorReason ?? body.error } : {}),
+    };
+  }
+
+  private async post(
+    path: string,
+    payload: X402PaymentPayload,
+    requirements: X402PaymentRequirements
+  ): Promise<Record<string, any>> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        x402Version: payload.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      }),
+      signal: AbortSignal.timeout(requirements.maxTimeoutSeconds * 1000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Facilitator ${path} failed with HTTP ${response.status}`);
+    }
+    return (await response.json()) as Record<string, any>;
+  }
+}
+
+/**
+ * Stand-in facilitator for tests and local development. It never touches the
+ * chain: every payment gets the configured verdict, and each call is recorded.
+ */
+export class StaticFacilitator implements Facilitator {
+  readonly name = "static";
+  readonly calls: Array<{ op: "verify" | "settle"; payload: X402PaymentPayload; requirements: X402PaymentRequirements }> = [];
+
+  constructor(
+    private outcome: { valid?: boolean; settled?: boolean; reason?: string; payer?: string } = {}
+  ) {}
+
+  async verify(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402VerifyResponse> {
+    this.calls.push({ op: "verify", payload, requirements });
+    const valid = this.outcome.valid ?? true;
+    return {
+      isValid: valid,
+      invalidReason: valid ? null : this.outcome.reason ?? "Rejected by static facilitator",
+      payer: this.payerOf(payload),
+    };
+  }
+
+  async settle(payload: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402SettlementResponse> {
+    this.calls.push({ op: "settle", payload, requirements });
+    const settled = this.outcome.settled ?? this.outcome.valid ?? true;
+    return {
+      success: settled,
+      transaction: this.signatureOf(payload),
+      network: requirements.network,
+      payer: this.payerOf(payload),
+      ...(settled ? {} : { errorReason: this.outcome.reason ?? "Rejected by static facilitator" }),
+    };
+  }
+
+  private decode(payload: X402PaymentPayload): Transaction | null {
+    try {
+      return Transaction.from(Buffer.from(payload.payload.transaction, "base64"));
+    } catch {
+      return null;
+    }
+  }
+
+  private payerOf(payload: X402PaymentPayload): string | null {
+    return this.outcome.payer ?? this.decode(payload)?.feePayer?.toBase58() ?? null;
+  }
+
+  private signatureOf(payload: X402PaymentPayload): string {
+    const signature = this.decode(payload)?.signature;
+    return signature ? bs58.encode(signature) : `static_${this.calls.length}`;
+  }
+}
+
+// Facilitator the paywall uses unless one is injected (X402_FACILITATOR_URL selects a remote one)
+export function createFacilitator(): Facilitator {
+  return X402_FACILITATOR_URL ? new RemoteFacilitator(X402_FACILITATOR_URL) : new LocalFacilitator();
+}
+
+// Backs the /api/v1/facilitator endpoints
+export const localFacilitator = new LocalFacilitator();
@@ -11,18 +11,43 @@ import {
   cancelJob,
   expireJob,
   markEscrowReleased,
+  listAbandonments,
+  rejectJob,
+  listUnpaidWithReleasedEscrow,
+  claimX402Settlement,
+  releaseX402Settlement,
   CreateJobInput,
   Job,
   JobResult,
+  JobAbandonment,
 } from "../models/job.js";
-import { JobStatus } from "../config/constants.js";
-import { isValidPublicKey } from "../solana/client.js";
+import { JobStatus, SettlementMode, toAtomicUnits, calculateFees } from "../config/constants.js";
+import { getPaymentToken, isNativeSol } from "../config/tokens.js";
+import { getConnection, isValidPublicKey } from "../solana/client.js";
+import { escrowService } from "./escrow-service.js";
+import { disputeService } from "./dispute-service.js";
+import { paymentService } from "./payment-service.js";
+
+// Statuses in which a submitted result awaits the requester's decision
+const REVIEWABLE_STATUSES = [JobStatus.UNDER_REVIEW, JobStatus.COMPLETED];
 
 export class JobService {
   async create(input: CreateJobInput): Promise<Job> {
     if (!isValidPublicKey(input.requesterWallet)) {
       throw new Error("Invalid requester wallet address");
     }
+    const token = getPaymentToken(input.bountyMint);
+    const bountyAtomic = toAtomicUnits((input.bountyAmount ?? input.bountyUsdc)!, token.decimals);
+    if (bountyAtomic <= 0n) {
+      throw new Error(`Bounty is below the smallest ${token.symbol} unit`);
+    }
+    // A SOL payout into a wallet that has never held SOL must make it rent-exempt
+    if (isNativeSol(token)) {
+      const minimum = BigInt(await getConnection().getMinimumBalanceForRentExemption(0));
+      if (calculateFees(bountyAtomic).workerAmount < minimum) {
+        throw new Error(`SOL bounty must pay the worker at least ${minimum} lamports after fees`);
+      }
+    }
     return createJob(input);
   }
 
@@ -50,6 +75,9 @@ export class JobService {
     if (job.status !== JobStatus.OPEN) {
       throw new Error(`Job cannot be claimed - status is ${job.status}`);
     }
+    if (this.isExpired(job)) {
+      throw new Error("Job has expired");
+    }
     if (job.requesterWallet === workerWallet) {
       throw new Error("Cannot claim your own job");
     }
@@ -72,10 +100,96 @@ export class JobService {
     if (job.workerWallet !== workerWallet) {
       throw new Error("Only the assigned worker can complete this job");
     }
+    if (job.claimDeadline && new Date() > job.claimDeadline) {
+      throw new Error("Claim deadline has passed");
+    }
 
     return completeJob(id, result, workerWallet);
   }
 
+  // Approve a result and release escrow to the worker.
+  // requesterWallet is null for system auto-approval after the review window.
+  async approve(id: string, requesterWallet: string | null): Promise<Job | null> {
+    const job = await getJob(id);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    if (requesterWallet !== null && job.requesterWallet !== requesterWallet) {
+      throw new Error("Only requester can approve");
+    }
+    if (job.settlementMode !== SettlementMode.ESCROW) {
+      throw new Error("Job is pay-on-delivery - pay for the result via x402");
+    }
+    if (!REVIEWABLE_STATUSES.includes(job.status)) {
+      throw new Error(`Job not under review - status is ${job.status}`);
+    }
+    const escrow = await escrowService.getEscrow(id);
+    if (!escrow) {
+      throw new Error("Escrow record not found");
+    }
+
+    // Idempotent: a release that landed before a crash only needs the job updated
+    if (escrow.status === "released" && escrow.releaseTxSig) {
+      return markEscrowReleased(id, escrow.releaseTxSig);
+    }
+    if (escrow.status === "releasing") {
+      throw new Error("Payment release in progress");
+    }
+
+    const release = await escrowService.releaseToWorker(id, job.workerWallet!);
+    if (!release.success) {
+      console.error(`Escrow release failed for job ${id}:`, release.error);
+      throw new Error("Payment release failed");
+    }
+
+    const paid = await markEscrowReleased(id, release.txSig!);
+    if (!paid) {
+      // The job left review while the release was in flight; recovery won't touch it
+      console.error(`Escrow for job ${id} released (${release.txSig}) but the job is no longer under review`);
+    }
+    return paid;
+  }
+
+  // Finish settlements interrupted by a crash, then bring jobs (and disputes)
+  // whose escrow was settled in line with it
+  async recoverSettlements(): Promise<number> {
+    await escrowService.recoverPendingSettlements();
+    await disputeService.recoverSettled();
+    await paymentService.recoverSettlements();
+
+    let synced = 0;
+    const unsynced = await listUnpaidWithReleasedEscrow();
+    for (const { job, releaseTxSig } of unsynced) {
+      if (await markEscrowReleased(job.id, releaseTxSig)) {
+        synced++;
+        console.log(`Job ${job.id} marked paid from recovered release ${releaseTxSig}`);
+      } else {
+        console.warn(`Job ${job.id} left review before its recovered release ${releaseTxSig} could be applied`);
+      }
+    }
+    return synced;
+  }
+
+  // Reject a result. Escrow stays held through the dispute window so the
+  // worker can contest; the sweeper refunds the requester once it closes.
+  async reject(id: string, requesterWallet: string, reason: string): Promise<Job | null> {
+    const job = await getJob(id);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    if (job.requesterWallet !== requesterWallet) {
+      throw new Error("Only requester can reject");
+    }
+    if (job.settlementMode !== SettlementMode.ESCROW) {
+      throw new Error("Job is pay-on-delivery - pay for the result via x402");
+    }
+    if (!REVIEWABLE_STATUSES.includes(job.status)) {
+      throw new Error(`Job not under review - status is ${job.status}`);
+    }
+
+    return rejectJob(id, reason);
+  }
+
   async getResult(jobId: string): Promise<JobResult | null> {
     return getResult(jobId);
   }
@@ -84,12 +198,21 @@ export class JobService {
     return markJobPaid(id, txSig);
   }
 
+  // Hold a pay-on-delivery job for one x402 payment while it settles
+  async claimPaymentSettlement(id: string, txSig: string): Promise<boolean> {
+    return claimX402Settlement(id, txSig);
+  }
+
+  async releasePaymentSettlement(id: string, txSig: string): Promise<void> {
+    return releaseX402Settlement(id, txSig);
+  }
+
   async activate(id: string, depositTxSig: string): Promise<Job | null> {
     const job = await getJob(id);
     if (!job) {
       throw new Error("Job not found");
     }
-    if (job.status !== JobStatus.PENDING_DEPOSIT) {
+    if (job.status !== JobStatus.PENDING_DEPOSIT || job.settlementMode !== SettlementMode.ESCROW) {
       throw new Error("Job not pending deposit");
     }
     return activateJob(id, depositTxSig);
@@ -125,6 +248,10 @@ export class JobService {
     return jobs.filter(j => j.requesterWallet === requesterWallet);
   }
 
+  async listAbandonments(filter: { jobId?: string; workerWallet?: string } = {}): Promise<JobAbandonment[]> {
+    return listAbandonments(filter);
+  }
+
   isExpired(job: Job): boolean {
     if (!job.expiresAt) return false;
     return new Date() > job.expiresAt;
@@ -0,0 +1,187 @@
+import {
+  postLedgerTransaction,
+  listLedgerEntries,
+  getLedgerBalances,
+  listUnbalancedTransactions,
+  listEscrowMismatches,
+  walletAccount,
+  ESCROW_ACCOUNT,
+  PLATFORM_FEES_ACCOUNT,
+  LedgerBalance,
+  LedgerEntry,
+  LedgerEntryInput,
+  LedgerTransactionKind,
+} from "../models/ledger.js";
+import { summarizePlatformFees } from "../models/platform-fee.js";
+import type pg from "pg";
+import { query } from "../db/index.js";
+
+// One settlement recipient as posted to the ledger
+export interface LedgerSettlementLeg {
+  wallet: string;
+  grossAtomic: bigint;
+  feeAtomic: bigint;
+}
+
+export interface LedgerInvariantReport {
+  checkedAt: Date;
+  ok: boolean;
+  unbalancedTransactions: Array<{ transactionId: number; sumAtomic: string }>;
+  escrowMismatches: Array<{ jobId: string; ledgerAtomic: string; recordAtomic: string }>;
+  // Account totals compared per mint
+  escrowAccount: Array<{ mint: string; ledgerAtomic: string; recordsAtomic: string }>;
+  platformFees: Array<{ mint: string; ledgerAtomic: string; recordedAtomic: string }>;
+}
+
+export class LedgerService {
+  // Requester funds move into escrow
+  async recordDeposit(
+    jobId: string,
+    requesterWallet: string,
+    amountAtomic: bigint,
+    mint: string,
+    txSig: string,
+    client?: pg.PoolClient
+  ): Promise<void> {
+    await this.post("deposit", jobId, mint, txSig, [
+      { account: walletAccount(requesterWallet), amountAtomic: -amountAtomic },
+      { account: ESCROW_ACCOUNT, amountAtomic },
+    ], client);
+  }
+
+  // Escrow pays out to one or more wallets, with any fee to the platform
+  async recordSettlement(
+    kind: "release" | "refund" | "split",
+    jobId: string,
+    mint: string,
+    legs: LedgerSettlementLeg[],
+    txSig: string,
+    client?: pg.PoolClient
+  ): Promise<void> {
+    const entries: LedgerEntryInput[] = [];
+    let totalFee = 0n;
+
+    for (const leg of legs) {
+      entries.push({ account: ESCROW_ACCOUNT, amountAtomic: -leg.grossAtomic });
+      entries.push({ account: walletAccount(leg.wallet), amountAtomic: leg.grossAtomic - leg.feeAtomic });
+      totalFee += leg.feeAtomic;
+    }
+    if (totalFee > 0n) {
+      entries.push({ account: PLATFORM_FEES_ACCOUNT, amountAtomic: totalFee });
+    }
+
+    await this.post(kind, jobId, mint, txSig, entries, client);
+  }
+
+  // Direct x402 payment from a payer to the worker, with the fee leg to the platform
+  async recordX402Payment(
+    jobId: string | null,
+    payerWallet: string,
+    workerWallet: string,
+    workerAtomic: bigint,
+    feeAtomic: bigint,
+    mint: string,
+    txSig: string
+  ): Promise<void> {
+    await this.post("x402_payment", jobId, mint, txSig, [
+      { account: walletAccount(payerWallet), amountAtomic: -(workerAtomic + feeAtomic) },
+      { account: walletAccount(workerWallet), amountAtomic: workerAtomic },
+      { account: PLATFORM_FEES_ACCOUNT, amountAtomic: feeAtomic },
+    ]);
+  }
+
+  async getBalances(account?: string): Promise<LedgerBalance[]> {
+    return getLedgerBalances(account);
+  }
+
+  async getEntries(filter: { account?: string; jobId?: string; limit?: number } = {}): Promise<LedgerEntry[]> {
+    return listLedgerEntries(filter);
+  }
+
+  /**
+   * Check ledger invariants: every transaction sums to zero, the escrow
+   * account matches escrow_records per job and per mint in total, and the
+   * platform fee account matches the platform_fees table per mint.
+   */
+  async checkInvariants(): Promise<LedgerInvariantReport> {
+    const [unbalanced, mismatches, balances, fees, held] = await Promise.all([
+      listUnbalancedTransactions(),
+      listEscrowMismatches(),
+      getLedgerBalances(),
+      summarizePlatformFees(),
+      query<{ mint: string; total: string }>(
+        `SELECT mint, COALESCE(SUM(amount_atomic), 0) AS total FROM escrow_records
+         WHERE status IN ('held', 'disputed', 'releasing')
+         GROUP BY mint`
+      ),
+    ]);
+
+    const balanceOf = (account: string, mint: string) =>
+      balances.find((b) => b.account === account && b.mint === mint)?.balanceAtomic ?? 0n;
+    const mintsOf = (...lists: Array<Array<{ mint: string }>>) =>
+      [...new Set(lists.flat().map((item) => item.mint))].sort();
+
+    const escrowAccount = mintsOf(balances.filter((b) => b.account === ESCROW_ACCOUNT), held).map((mint) => ({
+      mint,
+      ledgerAtomic: balanceOf(ESCROW_ACCOUNT, mint),
+      recordsAtomic: BigInt(held.find((h) => h.mint === mint)?.total || "0"),
+    }));
+    const platformFees = mintsOf(balances.filter((b) => b.account === PLATFORM_FEES_ACCOUNT), fees).map((mint) => ({
+      mint,
+      ledgerAtomic: balanceOf(PLATFORM_FEES_ACCOUNT, mint),
+      recordedAtomic: fees.find((f) => f.mint === mint)?.total ?? 0n,
+    }));
+
+    return {
+      checkedAt: new Date(),
+      ok:
+        unbalanced.length === 0 &&
+        mismatches.length === 0 &&
+        escrowAccount.every((e) => e.ledgerAtomic === e.recordsAtomic) &&
+        platformFees.every((f) => f.ledgerAtomic === f.recordedAtomic),
+      unbalancedTransactions: unbalanced.map((u) => ({
+        transactionId: u.transactionId,
+        sumAtomic: u.sumAtomic.toString(),
+      })),
+      escrowMismatches: mismatches.map((m) => ({
+        jobId: m.jobId,
+        ledgerAtomic: m.ledgerAtomic.toString(),
+        recordAtomic: m.recordAtomic.toString(),
+      })),
+      escrowAccount: escrowAccount.map((e) => ({
+        mint: e.mint,
+        ledgerAtomic: e.ledgerAtomic.toString(),
+        recordsAtomic: e.recordsAtomic.toString(),
+      })),
+      platformFees: platformFees.map((f) => ({
+        mint: f.mint,
+        ledgerAtomic: f.ledgerAtomic.toString(),
+        recordedAtomic: f.recordedAtomic.toString(),
+      })),
+    };
+  }
+
+  // Ledger failures are logged, never allowed to fail the money movement
+  // itself. Inside a caller's transaction they throw instead, so the postings
+  // and the status change they belong to commit or roll back together.
+  private async post(
+    kind: LedgerTransactionKind,
+    jobId: string | null,
+    mint: string,
+    txSig: string,
+    entries: LedgerEntryInput[],
+    client?: pg.PoolClient
+  ): Promise<void> {
+    if (client) {
+      await postLedgerTransaction(kind, jobId, mint, txSig, entries, client);
+      return;
+    }
+    try {
+      await postLedgerTransaction(kind, jobId, mint, txSig, entries);
+    } catch (error) {
+      console.error(`Ledger posting failed for ${kind} ${txSig}:`, error);
+    }
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -1,213 +1,401 @@
-import { Keypair, PublicKey, Transaction } from "@solana/web3.js";
-import { getConnection, loadWallet } from "../solana/client.js";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import { getConnection } from "../solana/client.js";
 import {
-  buildUsdcTransferTx,
-  transferUsdc,
-  verifyUsdcTransfer,
-} from "../solana/usdc.js";
+  buildTokenTransferTx,
+  serializeUnsignedTx,
+} from "../solana/token.js";
 import {
-  USDC_MINT_DEVNET,
-  SOLANA_NETWORK,
   PLATFORM_WALLET,
   PLATFORM_FEE_PERCENT,
   calculateFees,
+  X402_VERSION,
+  X402_LEGACY_COMPAT,
+  X402_MAX_TIMEOUT_SECONDS,
 } from "../config/constants.js";
+import { PaymentToken } from "../config/tokens.js";
+import { NETWORK } from "../config/network.js";
+import {
+  recordPlatformFee,
+  listPlatformFees,
+  summarizePlatformFees,
+  PlatformFee,
+  PlatformFeeFilter,
+  PlatformFeeTotals,
+} from "../models/platform-fee.js";
+import { ledgerService } from "./ledger-service.js";
+import { jobToken, listStaleX402Settlements, markJobPaid, releaseX402Settlement } from "../models/job.js";
+import { releaseTransaction } from "../models/processed-tx.js";
+import { wsHub } from "../server/websocket/hub.js";
+import {
+  Facilitator,
+  X402VerifyResponse,
+  checkPaymentLegs,
+  createFacilitator,
+  paymentLegs,
+} from "./facilitator.js";
+
+// x402 payment requirements for one accepted way to pay (x402 v1)
+export interface X402PaymentRequirements {
+  scheme: "exact";
+  network: string;
+  maxAmountRequired: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  outputSchema?: object | null;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string;
+  extra: Record<string, unknown> | null;
+}
 
-// x402 Payment Required response format (with fee breakdown)
+// Fee split between worker and platform, advertised alongside the requirements
+export interface X402Breakdown {
+  total: string;
+  worker: { address: string; amount: string };
+  platform: { address: string; amount: string; percent: number };
+}
+
+// x402 Payment Required response body
 export interface X402PaymentRequired {
-  accepts: Array<{
-    scheme: "exact";
-    network: string;
-    maxAmountRequired: string;
-    asset: string;
-    payTo: string;
-  }>;
-  // Extended info for multi-recipient payments
-  breakdown?: {
-    total: string;
-    worker: { address: string; amount: string };
-    platform: { address: string; amount: string; percent: number };
+  x402Version: number;
+  error: string;
+  accepts: X402PaymentRequirements[];
+  // Legacy top-level breakdown, only sent with X402_LEGACY_COMPAT
+  breakdown?: X402Breakdown;
+}
+
+// Standard X-PAYMENT header envelope (exact scheme on Solana)
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme: "exact";
+  network: string;
+  payload: {
+    transaction: string; // Base64 encoded signed transaction
   };
 }
 
-// x402 Payment header format
+// Payment parsed from either header format
 export interface X402Payment {
   serializedTransaction: string; // Base64 encoded signed transaction
+  format: "v1" | "legacy";
+}
+
+// Resource being paid for, echoed in the requirements
+export interface X402Resource {
+  url: string;
+  description: string;
+  mimeType?: string;
 }
 
 // x402 Payment response format
 export interface X402PaymentResponse {
   txSig: string;
   success: boolean;
+  reason?: string; // Why verification failed
+  payer?: string;
   breakdown?: {
     workerAmount: string;
     platformFee: string;
   };
 }
 
-// Platform earnings tracking (in-memory)
-const platformEarnings: Array<{
-  jobId: string;
-  amount: bigint;
-  txSig: string;
-  timestamp: Date;
-}> = [];
+// Standard X-PAYMENT-RESPONSE settlement payload
+export interface X402SettlementResponse {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer: string | null;
+  errorReason?: string;
+}
+
+// Settlement claims older than this are resolved from the chain. It is well
+// past a blockhash's lifetime, so a payment not seen by then can never land.
+const X402_SETTLEMENT_RECOVERY_SECONDS = 300;
 
 export class PaymentService {
-  // Generate 402 Payment Required response with fee breakdown
-  generatePaymentRequired(
+  private facilitator: Facilitator = createFacilitator();
+
+  // Swap the facilitator, e.g. for a StaticFacilitator in tests
+  setFacilitator(facilitator: Facilitator): void {
+    this.facilitator = facilitator;
+  }
+
+  getFacilitator(): Facilitator {
+    return this.facilitator;
+  }
+
+  // Payment requirements for a result in the job's token, with the token's
+  // decimals and program and the fee breakdown in `extra`
+  getPaymentRequirements(
     workerWallet: string,
-    totalAtomic: bigint
-  ): X402PaymentRequired {
+    totalAtomic: bigint,
+    resource: X402Resource,
+    token: PaymentToken
+  ): X402PaymentRequirements {
     const { workerAmount, platformFee } = calculateFees(totalAtomic);
     const hasPlatformWallet = PLATFORM_WALLET && PLATFORM_WALLET.length > 30;
 
-    // If no platform wallet configured, all goes to worker
-    if (!hasPlatformWallet) {
-      return {
-        accepts: [
-          {
-            scheme: "exact",
-            network: `solana-${SOLANA_NETWORK}`,
-            maxAmountRequired: totalAtomic.toString(),
-            asset: USDC_MINT_DEVNET.toBase58(),
-            payTo: workerWallet,
+    const breakdown: X402Breakdown | undefined = hasPlatformWallet
+      ? {
+          total: totalAtomic.toString(),
+          worker: {
+            address: workerWallet,
+            amount: workerAmount.toString(),
           },
-        ],
-      };
-    }
+          platform: {
+            address: PLATFORM_WALLET,
+            amount: platformFee.toString(),
+            percent: PLATFORM_FEE_PERCENT,
+          },
+        }
+      : undefined;
 
-    // With platform fee
     return {
-      accepts: [
-        {
-          scheme: "exact",
-          network: `solana-${SOLANA_NETWORK}`,
-          maxAmountRequired: totalAtomic.toString(),
-          asset: USDC_MINT_DEVNET.toBase58(),
-          payTo: workerWallet, // Primary recipient for simple clients
-        },
-      ],
-      breakdown: {
-        total: totalAtomic.toString(),
-        worker: {
-          address: workerWallet,
-          amount: workerAmount.toString(),
-        },
-        platform: {
-          address: PLATFORM_WALLET,
-          amount: platformFee.toString(),
-          percent: PLATFORM_FEE_PERCENT,
-        },
+      scheme: "exact",
+      network: NETWORK.x402Network,
+      maxAmountRequired: totalAtomic.toString(),
+      resource: resource.url,
+      description: resource.description,
+      mimeType: resource.mimeType ?? "application/json",
+      outputSchema: null,
+      payTo: workerWallet, // Primary recipient for simple clients
+      maxTimeoutSeconds: X402_MAX_TIMEOUT_SECONDS,
+      asset: token.mint.toBase58(),
+      extra: {
+        token: { symbol: token.symbol, decimals: token.decimals, tokenProgram: token.programId.toBase58() },
+        ...(breakdown ? { breakdown } : {}),
       },
     };
   }
 
-  // Parse X-Payment header
+  // Generate 402 Payment Required response body
+  generatePaymentRequired(
+    requirements: X402PaymentRequirements,
+    error: string = "X-PAYMENT header is required"
+  ): X402PaymentRequired {
+    const breakdown = requirements.extra?.breakdown as X402Breakdown | undefined;
+
+    return {
+      x402Version: X402_VERSION,
+      error,
+      accepts: [requirements],
+      ...(X402_LEGACY_COMPAT && breakdown ? { breakdown } : {}),
+    };
+  }
+
+  // Parse the X-PAYMENT header (x402 v1 envelope, or the legacy
+  // {serializedTransaction} payload when X402_LEGACY_COMPAT is on)
   parsePaymentHeader(header: string): X402Payment | null {
     try {
       const decoded = Buffer.from(header, "base64").toString("utf-8");
       const parsed = JSON.parse(decoded);
-      if (typeof parsed.serializedTransaction === "string") {
-        return parsed as X402Payment;
+
+      if (
+        parsed.x402Version === X402_VERSION &&
+        parsed.scheme === "exact" &&
+        parsed.network === NETWORK.x402Network &&
+        typeof parsed.payload?.transaction === "string"
+      ) {
+        return { serializedTransaction: parsed.payload.transaction, format: "v1" };
       }
+
+      if (X402_LEGACY_COMPAT && typeof parsed.serializedTransaction === "string") {
+        return { serializedTransaction: parsed.serializedTransaction, format: "legacy" };
+      }
+      return null;
+    } catch {
       return null;
+    }
+  }
+
+  // Facilitators only speak the v1 envelope; legacy payments are rewrapped
+  toPaymentPayload(payment: X402Payment): X402PaymentPayload {
+    return {
+      x402Version: X402_VERSION,
+      scheme: "exact",
+      network: NETWORK.x402Network,
+      payload: { transaction: payment.serializedTransaction },
+    };
+  }
+
+  // Signature a payment transaction will land under, known before submission
+  getPaymentSignature(payment: X402Payment): string | null {
+    try {
+      const tx = Transaction.from(Buffer.from(payment.serializedTransaction, "base64"));
+      return tx.signature ? bs58.encode(tx.signature) : null;
     } catch {
       return null;
     }
   }
 
-  // Verify and submit a payment transaction
-  async verifyAndSubmitPayment(
+  // Check a payment against the requirements without moving funds. Both legs
+  // are checked here too, so a facilitator that only knows payTo cannot let a
+  // payment without the platform fee through.
+  async verifyPayment(
     payment: X402Payment,
-    workerWallet: string,
-    totalAtomic: bigint,
+    requirements: X402PaymentRequirements
+  ): Promise<X402VerifyResponse> {
+    let tx: Transaction;
+    try {
+      tx = Transaction.from(Buffer.from(payment.serializedTransaction, "base64"));
+    } catch {
+      return { isValid: false, invalidReason: "Malformed transaction", payer: null };
+    }
+
+    const payer = tx.feePayer?.toBase58() ?? null;
+    if (!payer) {
+      return { isValid: false, invalidReason: "Transaction has no fee payer", payer: null };
+    }
+
+    const shortfall = await checkPaymentLegs(tx, payer, requirements);
+    if (shortfall) {
+      return { isValid: false, invalidReason: shortfall, payer };
+    }
+
+    return this.facilitator.verify(this.toPaymentPayload(payment), requirements);
+  }
+
+  // Settle a verified payment and book the worker share and platform fee
+  async settlePayment(
+    payment: X402Payment,
+    requirements: X402PaymentRequirements,
     jobId?: string
   ): Promise<X402PaymentResponse> {
-    const conn = getConnection();
-    const { workerAmount, platformFee } = calculateFees(totalAtomic);
-    const hasPlatformWallet = PLATFORM_WALLET && PLATFORM_WALLET.length > 30;
+    const settlement = await this.facilitator.settle(this.toPaymentPayload(payment), requirements);
+    const txSig = settlement.transaction;
+    const payer = settlement.payer ?? "";
 
-    try {
-      // Deserialize the transaction
-      const txBuffer = Buffer.from(payment.serializedTransaction, "base64");
-      const tx = Transaction.from(txBuffer);
+    if (!settlement.success) {
+      return {
+        txSig,
+        success: false,
+        reason: settlement.errorReason ?? "Settlement failed",
+        payer: payer || undefined,
+      };
+    }
 
-      // Submit the transaction
-      const txSig = await conn.sendRawTransaction(txBuffer, {
-        skipPreflight: false,
-        preflightCommitment: "confirmed",
-      });
+    const { worker, platform } = paymentLegs(requirements);
+    await this.recordSettledPayment(requirements, jobId ?? null, payer, txSig);
 
-      // Wait for confirmation
-      await conn.confirmTransaction(txSig, "confirmed");
+    return {
+      txSig,
+      success: true,
+      payer: payer || undefined,
+      breakdown: {
+        workerAmount: worker.amountAtomic.toString(),
+        platformFee: (platform?.amountAtomic ?? 0n).toString(),
+      },
+    };
+  }
 
-      // Verify the worker received payment
-      // For now, accept either full amount OR worker amount (for split payments)
-      const minAcceptable = hasPlatformWallet ? workerAmount : totalAtomic;
+  // Book a settled payment: the platform fee and the ledger transaction
+  private async recordSettledPayment(
+    requirements: X402PaymentRequirements,
+    jobId: string | null,
+    payer: string,
+    txSig: string
+  ): Promise<void> {
+    const { worker, platform } = paymentLegs(requirements);
 
-      const verified = await verifyUsdcTransfer(
-        txSig,
-        "",
-        workerWallet,
-        minAcceptable
-      );
+    // Verification required the platform leg, so a settled payment carries the fee
+    const feeCollected = platform?.amountAtomic ?? 0n;
+    if (feeCollected > 0n && jobId) {
+      await recordPlatformFee(jobId, "x402", feeCollected, requirements.asset, txSig);
+      console.log(`Platform earned ${feeCollected} atomic units from job ${jobId}`);
+    }
 
-      if (!verified) {
-        return { txSig, success: false };
-      }
+    await ledgerService.recordX402Payment(
+      jobId,
+      payer || "unknown",
+      worker.recipient,
+      worker.amountAtomic,
+      feeCollected,
+      requirements.asset,
+      txSig
+    );
+  }
+
+  /**
+   * Resolve x402 settlements whose outcome the paywall never learned (the
+   * facilitator errored or timed out, or the process died). The payment was
+   * verified before it was submitted, so a transaction that landed without
+   * error paid every leg: the job is marked paid and the payment booked. One
+   * that failed, or that never landed, frees the job for a new payment.
+   */
+  async recoverSettlements(): Promise<number> {
+    const stale = await listStaleX402Settlements(X402_SETTLEMENT_RECOVERY_SECONDS);
+    let paid = 0;
 
-      // Track platform earnings if platform wallet is configured
-      if (hasPlatformWallet && platformFee > 0n && jobId) {
-        // Check if platform also received its share
-        const platformReceived = await verifyUsdcTransfer(
-          txSig,
-          "",
-          PLATFORM_WALLET,
-          platformFee
-        );
-
-        if (platformReceived) {
-          platformEarnings.push({
-            jobId,
-            amount: platformFee,
-            txSig,
-            timestamp: new Date(),
-          });
-          console.log(`Platform earned ${platformFee} atomic units from job ${jobId}`);
+    for (const job of stale) {
+      const txSig = job.settlingTxSig!;
+      try {
+        const tx = await getConnection().getParsedTransaction(txSig, {
+          commitment: "confirmed",
+          maxSupportedTransactionVersion: 0,
+        });
+        if (tx && !tx.meta) continue;
+
+        if (!tx || tx.meta!.err) {
+          await releaseX402Settlement(job.id, txSig);
+          await releaseTransaction(txSig, "x402");
+          console.warn(`x402 payment ${txSig} for job ${job.id} ${tx ? "failed on-chain" : "never landed"} - job can be paid again`);
+          continue;
         }
-      }
 
-      return {
-        txSig,
-        success: true,
-        breakdown: {
-          workerAmount: workerAmount.toString(),
-          platformFee: platformFee.toString(),
-        },
-      };
-    } catch (error) {
-      console.error("Payment verification failed:", error);
-      throw error;
+        const token = jobToken(job);
+        if (token && job.workerWallet) {
+          const requirements = this.getPaymentRequirements(
+            job.workerWallet,
+            job.bountyAtomic,
+            { url: "", description: `Result for job "${job.title}"` },
+            token
+          );
+          const payer = tx.transaction.message.accountKeys[0].pubkey.toBase58();
+          await this.recordSettledPayment(requirements, job.id, payer, txSig);
+        }
+
+        const paidJob = await markJobPaid(job.id, txSig);
+        if (paidJob) {
+          paid++;
+          console.log(`Job ${job.id} marked paid from recovered x402 payment ${txSig}`);
+          wsHub.broadcastJobPaid(paidJob);
+        }
+      } catch (error) {
+        console.error(`x402 settlement recovery failed for job ${job.id}:`, error);
+      }
     }
+    return paid;
   }
 
-  // Build a payment transaction for a client (with optional platform fee)
+  // Build an unsigned x402 payment transaction for a client: the worker's
+  // share plus the platform fee leg when a platform wallet is configured
   async buildPaymentTx(
-    senderPubkey: string,
-    recipientWallet: string,
-    amountAtomic: bigint
-  ): Promise<string> {
-    const sender = new PublicKey(senderPubkey);
-    const tx = await buildUsdcTransferTx(sender, recipientWallet, amountAtomic);
+    payerWallet: string,
+    workerWallet: string,
+    totalAtomic: bigint,
+    token: PaymentToken
+  ): Promise<{ transaction: string; lastValidBlockHeight: number; legs: Array<{ recipient: string; amountAtomic: string }> }> {
+    const { workerAmount, platformFee } = calculateFees(totalAtomic);
+    const hasPlatformWallet = PLATFORM_WALLET && PLATFORM_WALLET.length > 30;
+
+    const legs = hasPlatformWallet
+      ? [
+          { recipient: workerWallet, amountAtomic: workerAmount },
+          { recipient: PLATFORM_WALLET, amountAtomic: platformFee },
+        ]
+      : [{ recipient: workerWallet, amountAtomic: totalAtomic }];
 
-    // Serialize (unsigned)
-    const serialized = tx.serialize({
-      requireAllSignatures: false,
-      verifySignatures: false,
-    });
+    const { tx, lastValidBlockHeight } = await buildTokenTransferTx(new PublicKey(payerWallet), legs, { token });
 
-    return serialized.toString("base64");
+    return {
+      transaction: serializeUnsignedTx(tx),
+      lastValidBlockHeight,
+      legs: legs
+        .filter((leg) => leg.amountAtomic > 0n)
+        .map((leg) => ({ recipient: leg.recipient, amountAtomic: leg.amountAtomic.toString() })),
+    };
   }
 
   // Helper to encode payment response
@@ -215,22 +403,33 @@ export class PaymentService {
     return Buffer.from(JSON.stringify(paymentReq)).toString("base64");
   }
 
-  encodePaymentResponse(response: X402PaymentResponse): string {
-    return Buffer.from(JSON.stringify(response)).toString("base64");
+  // X-PAYMENT-RESPONSE value; legacy clients get the payload shape they sent
+  encodePaymentResponse(response: X402PaymentResponse, format: X402Payment["format"] = "v1"): string {
+    if (format === "legacy") {
+      return Buffer.from(JSON.stringify(response)).toString("base64");
+    }
+
+    const settlement: X402SettlementResponse = {
+      success: response.success,
+      transaction: response.txSig,
+      network: NETWORK.x402Network,
+      payer: response.payer ?? null,
+      ...(response.reason ? { errorReason: response.reason } : {}),
+    };
+    return Buffer.from(JSON.stringify(settlement)).toString("base64");
   }
 
-  // Get platform earnings summary
-  getPlatformEarnings(): {
-    total: bigint;
+  // Get platform earnings per mint, optionally for one job or a date range
+  async getPlatformEarnings(filter: PlatformFeeFilter = {}): Promise<{
+    byMint: PlatformFeeTotals[];
     count: number;
-    transactions: typeof platformEarnings;
-  } {
-    const total = platformEarnings.reduce((sum, e) => sum + e.amount, 0n);
-    return {
-      total,
-      count: platformEarnings.length,
-      transactions: platformEarnings,
-    };
+    transactions: PlatformFee[];
+  }> {
+    const [byMint, transactions] = await Promise.all([
+      summarizePlatformFees(filter),
+      listPlatformFees(filter),
+    ]);
+    return { byMint, count: transactions.length, transactions };
   }
 
   // Get fee info
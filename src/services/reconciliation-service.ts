@@ -0,0 +1,350 @@
+import { PublicKey, ParsedTransactionWithMeta, SystemProgram } from "@solana/web3.js";
+import { getAccount, TokenAccountNotFoundError } from "@solana/spl-token";
+import { getConnection } from "../solana/client.js";
+import { getTokenAccountAddress } from "../solana/token.js";
+import { query } from "../db/index.js";
+import {
+  PLATFORM_WALLET,
+  ESCROW_SOL_RESERVE_LAMPORTS,
+  RECONCILIATION_INTERVAL_MS,
+  RECONCILIATION_SIGNATURE_LIMIT,
+} from "../config/constants.js";
+import { PAYMENT_TOKENS, PaymentToken, isNativeSol } from "../config/tokens.js";
+import { escrowService } from "./escrow-service.js";
+
+// A token movement on the escrow account with no matching database record
+export interface UnmatchedTransfer {
+  txSig: string;
+  direction: "in" | "out";
+  amountAtomic: string;
+  counterparty: string | null;
+  blockTime: Date | null;
+}
+
+// Reconciliation of the escrow token account for one payment mint. For native
+// SOL the account is the escrow wallet itself, which also holds the fee
+// reserve, so anything above escrowed SOL is expected rather than a surplus.
+export interface TokenReconciliation {
+  mint: string;
+  symbol: string;
+  escrowTokenAccount: string;
+  balance: {
+    onChainAtomic: string;
+    expectedHeldAtomic: string;
+    differenceAtomic: string; // onChain - expected; negative means funds are missing
+    reserveAtomic?: string; // Native SOL only: fee reserve the difference must cover
+    status: "balanced" | "surplus" | "deficit" | "reserve_low" | "unavailable";
+  };
+  signaturesScanned: number;
+  unmatchedDeposits: UnmatchedTransfer[];
+  unmatchedReleases: UnmatchedTransfer[];
+  discrepancies: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  escrowWallet: string;
+  tokens: TokenReconciliation[];
+  discrepancies: number;
+  error?: string;
+}
+
+export class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+  // The run in progress, shared by every caller that asks for one meanwhile
+  private inFlight: Promise<ReconciliationReport> | null = null;
+  private lastReport: ReconciliationReport | null = null;
+
+  start(intervalMs: number = RECONCILIATION_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => console.error("Escrow reconciliation failed:", error));
+    }, intervalMs);
+
+    console.log(`Escrow reconciliation scheduled (every ${Math.round(intervalMs / 60000)}m)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Compare escrow_records against the escrow token account of each payment
+   * mint. Checks each on-chain balance against getTotalHeld() for that mint,
+   * then walks the most recent signatures on the account and flags incoming
+   * transfers with no escrow deposit and outgoing transfers with no recorded
+   * settlement. A call while a run is in progress waits for that run's
+   * report (with that run's signature limit) rather than starting another.
+   */
+  run(signatureLimit: number = RECONCILIATION_SIGNATURE_LIMIT): Promise<ReconciliationReport> {
+    if (!this.inFlight) {
+      this.inFlight = this.reconcile(signatureLimit).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async reconcile(signatureLimit: number): Promise<ReconciliationReport> {
+    const escrowWallet = escrowService.getEscrowWallet();
+    const report: ReconciliationReport = {
+      checkedAt: new Date(),
+      escrowWallet,
+      tokens: [],
+      discrepancies: 0,
+    };
+
+    try {
+      if (!escrowWallet) {
+        throw new Error("Escrow wallet not configured");
+      }
+
+      for (const token of PAYMENT_TOKENS) {
+        const section = await this.reconcileToken(token, escrowWallet, signatureLimit);
+        report.tokens.push(section);
+        report.discrepancies += section.discrepancies;
+      }
+    } catch (error: any) {
+      report.error = error?.message || "Reconciliation failed";
+    }
+
+    this.logReport(report);
+    this.lastReport = report;
+    return report;
+  }
+
+  private async reconcileToken(
+    token: PaymentToken,
+    escrowWallet: string,
+    signatureLimit: number
+  ): Promise<TokenReconciliation> {
+    const conn = getConnection();
+    const mint = token.mint.toBase58();
+    const escrowAta = await getTokenAccountAddress(token, new PublicKey(escrowWallet));
+
+    const native = isNativeSol(token);
+    let onChain = 0n;
+    if (native) {
+      onChain = BigInt(await conn.getBalance(escrowAta, "confirmed"));
+    } else {
+      try {
+        onChain = (await getAccount(conn, escrowAta, "confirmed", token.programId)).amount;
+      } catch (error) {
+        if (!(error instanceof TokenAccountNotFoundError)) throw error;
+      }
+    }
+
+    const expected = await escrowService.getTotalHeld(mint);
+    const difference = onChain - expected;
+    let status: TokenReconciliation["balance"]["status"];
+    if (difference < 0n) {
+      status = "deficit";
+    } else if (native) {
+      status = difference < ESCROW_SOL_RESERVE_LAMPORTS ? "reserve_low" : "balanced";
+    } else {
+      status = difference === 0n ? "balanced" : "surplus";
+    }
+
+    const section: TokenReconciliation = {
+      mint,
+      symbol: token.symbol,
+      escrowTokenAccount: escrowAta.toBase58(),
+      balance: {
+        onChainAtomic: onChain.toString(),
+        expectedHeldAtomic: expected.toString(),
+        differenceAtomic: difference.toString(),
+        ...(native ? { reserveAtomic: ESCROW_SOL_RESERVE_LAMPORTS.toString() } : {}),
+        status,
+      },
+      signaturesScanned: 0,
+      unmatchedDeposits: [],
+      unmatchedReleases: [],
+      discrepancies: 0,
+    };
+
+    const transfers = await this.scanTransfers(escrowAta, escrowWallet, token, signatureLimit);
+    section.signaturesScanned = transfers.scanned;
+
+    const known = await this.knownSignatures(transfers.movements.map((m) => m.txSig));
+    for (const movement of transfers.movements) {
+      if (movement.direction === "in" && !known.deposits.has(movement.txSig)) {
+        section.unmatchedDeposits.push(movement);
+      }
+      if (movement.direction === "out" && !known.releases.has(movement.txSig)) {
+        section.unmatchedReleases.push(movement);
+      }
+    }
+
+    section.discrepancies =
+      (section.balance.status === "balanced" ? 0 : 1) +
+      section.unmatchedDeposits.length +
+      section.unmatchedReleases.length;
+    return section;
+  }
+
+  // Net movement of one mint on the escrow token account for each recent signature
+  private async scanTransfers(
+    escrowAta: PublicKey,
+    escrowWallet: string,
+    token: PaymentToken,
+    limit: number
+  ): Promise<{ scanned: number; movements: UnmatchedTransfer[] }> {
+    const conn = getConnection();
+    const signatures = await conn.getSignaturesForAddress(escrowAta, { limit });
+    const succeeded = signatures.filter((s) => !s.err);
+    if (succeeded.length === 0) {
+      return { scanned: signatures.length, movements: [] };
+    }
+
+    const txs = await conn.getParsedTransactions(
+      succeeded.map((s) => s.signature),
+      { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+    );
+
+    const movements: UnmatchedTransfer[] = [];
+    txs.forEach((tx, i) => {
+      if (!tx?.meta) return;
+
+      const movement = isNativeSol(token)
+        ? this.nativeMovement(tx, escrowWallet)
+        : this.tokenMovement(tx, escrowWallet, token.mint.toBase58());
+      if (!movement) return;
+      const { delta, counterparty } = movement;
+
+      movements.push({
+        txSig: succeeded[i].signature,
+        direction: delta > 0n ? "in" : "out",
+        amountAtomic: (delta > 0n ? delta : -delta).toString(),
+        counterparty,
+        blockTime: succeeded[i].blockTime ? new Date(succeeded[i].blockTime! * 1000) : null,
+      });
+    });
+
+    return { scanned: signatures.length, movements };
+  }
+
+  // Change in the escrow wallet's token balance, read from the transaction's token balances
+  private tokenMovement(
+    tx: ParsedTransactionWithMeta,
+    escrowWallet: string,
+    mint: string
+  ): { delta: bigint; counterparty: string | null } | null {
+    const pre = tx.meta!.preTokenBalances || [];
+    const post = tx.meta!.postTokenBalances || [];
+    const amountOf = (balances: typeof pre, owner: string | undefined) =>
+      balances
+        .filter((b) => b.mint === mint && b.owner === owner)
+        .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+
+    const delta = amountOf(post, escrowWallet) - amountOf(pre, escrowWallet);
+    if (delta === 0n) return null;
+
+    // The counterparty is whichever other owner moved the opposite way
+    const owners = new Set(post.filter((b) => b.mint === mint && b.owner !== escrowWallet).map((b) => b.owner));
+    for (const owner of owners) {
+      const change = amountOf(post, owner) - amountOf(pre, owner);
+      if ((delta > 0n && change < 0n) || (delta < 0n && change > 0n && owner !== PLATFORM_WALLET)) {
+        return { delta, counterparty: owner ?? null };
+      }
+    }
+    return { delta, counterparty: null };
+  }
+
+  // Net SOL moved by System Program transfers into or out of the escrow wallet.
+  // Fees and rent are left out: they come from the reserve, not from escrow.
+  private nativeMovement(
+    tx: ParsedTransactionWithMeta,
+    escrowWallet: string
+  ): { delta: bigint; counterparty: string | null } | null {
+    const instructions = [
+      ...tx.transaction.message.instructions,
+      ...(tx.meta!.innerInstructions ?? []).flatMap((group) => group.instructions),
+    ];
+
+    let delta = 0n;
+    const senders: string[] = [];
+    const recipients: string[] = [];
+    for (const ix of instructions) {
+      if (!("parsed" in ix) || !ix.programId.equals(SystemProgram.programId) || ix.parsed?.type !== "transfer") continue;
+      const { source, destination, lamports } = ix.parsed.info;
+      if (destination === escrowWallet && source !== escrowWallet) {
+        delta += BigInt(lamports);
+        senders.push(source);
+      } else if (source === escrowWallet && destination !== escrowWallet) {
+        delta -= BigInt(lamports);
+        recipients.push(destination);
+      }
+    }
+
+    if (delta === 0n) return null;
+    const counterparty = delta > 0n
+      ? senders[0]
+      : recipients.find((wallet) => wallet !== PLATFORM_WALLET) ?? recipients[0];
+    return { delta, counterparty: counterparty ?? null };
+  }
+
+  // Deposit and settlement signatures the database knows about
+  private async knownSignatures(txSigs: string[]): Promise<{ deposits: Set<string>; releases: Set<string> }> {
+    if (txSigs.length === 0) {
+      return { deposits: new Set(), releases: new Set() };
+    }
+
+    const depositRows = await query<{ tx_sig: string }>(
+      `SELECT deposit_tx_sig AS tx_sig FROM escrow_records WHERE deposit_tx_sig = ANY($1)
+       UNION
+       SELECT tx_sig FROM processed_txs WHERE purpose = 'deposit' AND tx_sig = ANY($1)`,
+      [txSigs]
+    );
+
+    // A "releasing" record's pending signature counts: recovery will finalize it
+    const releaseRows = await query<{ tx_sig: string }>(
+      `SELECT release_tx_sig AS tx_sig FROM escrow_records WHERE release_tx_sig = ANY($1)
+       UNION
+       SELECT pending_tx_sig AS tx_sig FROM escrow_records WHERE pending_tx_sig = ANY($1)`,
+      [txSigs]
+    );
+
+    return {
+      deposits: new Set(depositRows.map((r) => r.tx_sig)),
+      releases: new Set(releaseRows.map((r) => r.tx_sig)),
+    };
+  }
+
+  private logReport(report: ReconciliationReport): void {
+    if (report.error) {
+      console.error(`Escrow reconciliation could not complete: ${report.error}`);
+      return;
+    }
+    if (report.discrepancies === 0) {
+      const scanned = report.tokens.reduce((sum, t) => sum + t.signaturesScanned, 0);
+      console.log(`Escrow reconciliation OK (${report.tokens.length} mints, ${scanned} signatures scanned)`);
+      return;
+    }
+
+    console.warn(`Escrow reconciliation found ${report.discrepancies} discrepancies:`);
+    for (const token of report.tokens) {
+      if (token.balance.status !== "balanced") {
+        console.warn(
+          `  ${token.symbol} balance ${token.balance.status}: on-chain ${token.balance.onChainAtomic}, ` +
+          `expected ${token.balance.expectedHeldAtomic} (diff ${token.balance.differenceAtomic})`
+        );
+      }
+      for (const t of token.unmatchedDeposits) {
+        console.warn(`  ${token.symbol} deposit with no job: ${t.txSig} (${t.amountAtomic} from ${t.counterparty ?? "unknown"})`);
+      }
+      for (const t of token.unmatchedReleases) {
+        console.warn(`  ${token.symbol} release with no record: ${t.txSig} (${t.amountAtomic} to ${t.counterparty ?? "unknown"})`);
+      }
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -1,14 +1,20 @@
 import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { createPublicKey, verify as cryptoVerify } from "crypto";
 import bs58 from "bs58";
-import { SOLANA_DEVNET_RPC } from "../config/constants.js";
+import { NETWORK } from "../config/network.js";
+import { rpcPool } from "./rpc-pool.js";
 
-// Singleton connection
+// Singleton connection. HTTP requests go through the RPC pool, which handles
+// failover, retries and rate limits itself; subscriptions use the primary endpoint.
 let connection: Connection | null = null;
 
 export function getConnection(): Connection {
   if (!connection) {
-    connection = new Connection(SOLANA_DEVNET_RPC, {
+    connection = new Connection(NETWORK.rpcUrl, {
       commitment: "confirmed",
+      fetch: (input, init) => rpcPool.request(input, init),
+      disableRetryOnRateLimit: true,
+      httpAgent: false,
     });
   }
   return connection;
@@ -50,6 +56,32 @@ export function isValidPublicKey(address: string): boolean {
   }
 }
 
+// Verify an ed25519 signature made by a Solana wallet
+export function verifyWalletSignature(
+  wallet: string,
+  message: string,
+  signature: string
+): boolean {
+  try {
+    const publicKey = new PublicKey(wallet).toBytes();
+    const signatureBytes = bs58.decode(signature);
+    if (signatureBytes.length !== 64) return false;
+
+    const key = createPublicKey({
+      key: {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: Buffer.from(publicKey).toString("base64url"),
+      },
+      format: "jwk",
+    });
+
+    return cryptoVerify(null, Buffer.from(message, "utf-8"), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
 // Get SOL balance
 export async function getSolBalance(address: string): Promise<number> {
   const conn = getConnection();
@@ -58,11 +90,14 @@ export async function getSolBalance(address: string): Promise<number> {
   return balance / 1e9; // Convert lamports to SOL
 }
 
-// Request SOL airdrop (devnet only)
+// Request SOL airdrop (devnet, testnet and localnet only)
 export async function requestSolAirdrop(
   address: string,
   amountSol: number = 1
 ): Promise<string> {
+  if (!NETWORK.airdrop) {
+    throw new Error(`Airdrops are not available on ${NETWORK.name}`);
+  }
   const conn = getConnection();
   const pubkey = new PublicKey(address);
   const signature = await conn.requestAirdrop(pubkey, amountSol * 1e9);
@@ -0,0 +1,28 @@
+import { formatAtomicUnits } from "../config/constants.js";
+
+// Fields of a Solana Pay transfer request
+// https://docs.solanapay.com/spec#transfer-request
+export interface TransferRequestFields {
+  recipient: string;
+  amountAtomic: bigint;
+  splToken?: string; // Omitted for native SOL
+  decimals: number; // Of splToken (9 for SOL), to express amountAtomic in whole tokens
+  reference?: string;
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+// Build a `solana:` transfer request URL that mobile wallets can pay directly
+export function buildTransferRequestUrl(fields: TransferRequestFields): string {
+  const params = new URLSearchParams();
+  params.set("amount", formatAtomicUnits(fields.amountAtomic, fields.decimals));
+  if (fields.splToken) params.set("spl-token", fields.splToken);
+  if (fields.reference) params.set("reference", fields.reference);
+  if (fields.label) params.set("label", fields.label);
+  if (fields.message) params.set("message", fields.message);
+  if (fields.memo) params.set("memo", fields.memo);
+
+  // URLSearchParams encodes spaces as "+", which the spec does not allow
+  return `solana:${fields.recipient}?${params.toString().replace(/\+/g, "%20")}`;
+}
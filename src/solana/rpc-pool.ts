@@ -0,0 +1,309 @@
+import { NETWORK } from "../config/network.js";
+import {
+  RPC_TIMEOUT_MS,
+  RPC_MAX_ATTEMPTS,
+  RPC_BACKOFF_BASE_MS,
+  RPC_BACKOFF_MAX_MS,
+  RPC_HEALTH_CHECK_INTERVAL_MS,
+} from "../config/constants.js";
+
+// Consecutive failures after which an endpoint is marked unhealthy until it recovers
+const UNHEALTHY_AFTER_FAILURES = 3;
+
+// JSON-RPC errors that say more about the node than the request, so another
+// endpoint may well answer: internal error, node unhealthy or behind, block or
+// slot not available yet, and the rate limits some providers send in a 200
+const RETRYABLE_RPC_ERRORS = new Set([-32603, -32005, -32004, -32014, -32016]);
+const RATE_LIMIT_RPC_ERRORS = new Set([429, -32429]);
+
+// Counters for one RPC endpoint
+export interface RpcEndpointMetrics {
+  endpoint: string; // Scheme and host only; paths and query strings often carry API keys
+  healthy: boolean;
+  coolingDownUntil: Date | null;
+  consecutiveFailures: number;
+  requests: number;
+  served: number;
+  failures: number;
+  rateLimited: number;
+  timeouts: number;
+  avgLatencyMs: number | null;
+  servedByMethod: Record<string, number>;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastHealthCheckAt: Date | null;
+}
+
+interface Endpoint {
+  url: string;
+  metrics: RpcEndpointMetrics;
+  cooldownUntil: number;
+  totalLatencyMs: number;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+// JSON-RPC method of a request body, for metrics
+function rpcMethod(body: unknown): string {
+  if (typeof body !== "string") return "unknown";
+  try {
+    const parsed = JSON.parse(body);
+    return Array.isArray(parsed) ? "batch" : parsed.method ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+// The first retryable JSON-RPC error in a response body (one response or a batch)
+function retryableRpcError(body: string): { code: number; rateLimited: boolean } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+    const code = (item as { error?: { code?: unknown } } | null)?.error?.code;
+    if (typeof code !== "number") continue;
+    if (RATE_LIMIT_RPC_ERRORS.has(code)) return { code, rateLimited: true };
+    if (RETRYABLE_RPC_ERRORS.has(code)) return { code, rateLimited: false };
+  }
+  return null;
+}
+
+function backoffMs(attempt: number): number {
+  const exponential = Math.min(RPC_BACKOFF_MAX_MS, RPC_BACKOFF_BASE_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// Retry-After in seconds or as an HTTP date
+function retryAfterMs(header: string | null): number {
+  if (!header) return 0;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), RPC_BACKOFF_MAX_MS) : 0;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Spreads Solana JSON-RPC traffic over the network profile's endpoints. It is
+ * plugged into the Connection as its fetch, so every call through
+ * getConnection() gets it: each attempt has a timeout, 429s, 5xx responses,
+ * network errors and retryable JSON-RPC errors (node behind, internal error,
+ * rate limited) move on to the next available endpoint, and an endpoint that
+ * keeps failing cools down for exponentially longer before it is tried again.
+ * Periodic getHealth checks bring endpoints back once they recover.
+ *
+ * Only HTTP requests go through the pool. Websocket subscriptions
+ * (onAccountChange, onSignature, ...) stay on the primary endpoint.
+ */
+export class RpcPool {
+  private endpoints: Endpoint[];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[] = NETWORK.rpcUrls) {
+    this.endpoints = urls.map((url) => ({
+      url,
+      cooldownUntil: 0,
+      totalLatencyMs: 0,
+      metrics: {
+        endpoint: redactUrl(url),
+        healthy: true,
+        coolingDownUntil: null,
+        consecutiveFailures: 0,
+        requests: 0,
+        served: 0,
+        failures: 0,
+        rateLimited: 0,
+        timeouts: 0,
+        avgLatencyMs: null,
+        servedByMethod: {},
+        lastError: null,
+        lastErrorAt: null,
+        lastHealthCheckAt: null,
+      },
+    }));
+  }
+
+  start(intervalMs: number = RPC_HEALTH_CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.checkHealth().catch((error) => console.error("RPC health check failed:", error));
+    }, intervalMs);
+
+    console.log(`RPC pool: ${this.endpoints.length} endpoint(s), health checked every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getMetrics(): RpcEndpointMetrics[] {
+    return this.endpoints.map((endpoint) => ({
+      ...endpoint.metrics,
+      servedByMethod: { ...endpoint.metrics.servedByMethod },
+    }));
+  }
+
+  /**
+   * fetch() for the Connection. The URL it is given is ignored: the request
+   * goes to whichever endpoint is available. When every attempt fails, the
+   * last HTTP response (or error) is handed back so web3.js reports it.
+   */
+  async request(_input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const method = rpcMethod(init?.body);
+    const tried = new Set<Endpoint>();
+    let waitMs = 0;
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < RPC_MAX_ATTEMPTS; attempt++) {
+      const endpoint = this.pick(tried);
+      // Failing over to a fresh endpoint is immediate; retrying one backs off
+      if (tried.has(endpoint)) {
+        await sleep(Math.max(waitMs, backoffMs(attempt)));
+      }
+      tried.add(endpoint);
+      waitMs = 0;
+
+      const started = Date.now();
+      endpoint.metrics.requests++;
+      try {
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: init?.headers,
+          body: init?.body,
+          signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+        });
+
+        if (response.status === 429 || response.status >= 500) {
+          waitMs = retryAfterMs(response.headers.get("retry-after"));
+          this.recordFailure(endpoint, `HTTP ${response.status} on ${method}`, response.status === 429);
+          if (attempt === RPC_MAX_ATTEMPTS - 1) return response;
+          await response.body?.cancel().catch(() => {});
+          continue;
+        }
+
+        // JSON-RPC errors arrive with HTTP 200; the body has to be read to see them
+        const body = await response.text();
+        const rpcError = retryableRpcError(body);
+        const answer = new Response(body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        });
+
+        if (rpcError) {
+          this.recordFailure(endpoint, `RPC error ${rpcError.code} on ${method}`, rpcError.rateLimited);
+          if (attempt === RPC_MAX_ATTEMPTS - 1) return answer;
+          continue;
+        }
+
+        this.recordSuccess(endpoint, method, Date.now() - started);
+        return answer;
+      } catch (error: any) {
+        const timedOut = error?.name === "TimeoutError";
+        if (timedOut) endpoint.metrics.timeouts++;
+        this.recordFailure(endpoint, timedOut ? `Timed out on ${method}` : `${error?.message || error} on ${method}`);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Probe every endpoint with getHealth; healthy ones leave cooldown
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async (endpoint) => {
+      let healthy = false;
+      try {
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getHealth" }),
+          signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+        });
+        healthy = response.ok && (await response.json() as { result?: string }).result === "ok";
+      } catch {
+        healthy = false;
+      }
+
+      endpoint.metrics.lastHealthCheckAt = new Date();
+      if (healthy) {
+        if (!endpoint.metrics.healthy) {
+          console.log(`RPC endpoint ${endpoint.metrics.endpoint} is healthy again`);
+        }
+        endpoint.metrics.healthy = true;
+        endpoint.metrics.consecutiveFailures = 0;
+        endpoint.cooldownUntil = 0;
+        endpoint.metrics.coolingDownUntil = null;
+      } else {
+        this.markUnhealthy(endpoint);
+      }
+    }));
+  }
+
+  // First endpoint in order of preference that is healthy, not cooling down and
+  // not yet tried for this request; failing that, whichever frees up soonest
+  private pick(tried: Set<Endpoint>): Endpoint {
+    const now = Date.now();
+    const available = this.endpoints.filter((e) => e.metrics.healthy && e.cooldownUntil <= now);
+
+    return available.find((e) => !tried.has(e))
+      ?? available[0]
+      ?? [...this.endpoints].sort((a, b) => a.cooldownUntil - b.cooldownUntil)[0];
+  }
+
+  private recordSuccess(endpoint: Endpoint, method: string, latencyMs: number): void {
+    const { metrics } = endpoint;
+    metrics.served++;
+    metrics.servedByMethod[method] = (metrics.servedByMethod[method] ?? 0) + 1;
+    endpoint.totalLatencyMs += latencyMs;
+    metrics.avgLatencyMs = Math.round(endpoint.totalLatencyMs / metrics.served);
+    metrics.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    metrics.coolingDownUntil = null;
+    metrics.healthy = true;
+  }
+
+  private recordFailure(endpoint: Endpoint, reason: string, rateLimited: boolean = false): void {
+    const { metrics } = endpoint;
+    if (rateLimited) {
+      metrics.rateLimited++;
+    } else {
+      metrics.failures++;
+    }
+    metrics.lastError = reason;
+    metrics.lastErrorAt = new Date();
+    metrics.consecutiveFailures++;
+
+    const cooldown = Math.min(RPC_BACKOFF_MAX_MS, RPC_BACKOFF_BASE_MS * 2 ** (metrics.consecutiveFailures - 1));
+    endpoint.cooldownUntil = Date.now() + cooldown;
+    metrics.coolingDownUntil = new Date(endpoint.cooldownUntil);
+
+    if (metrics.consecutiveFailures >= UNHEALTHY_AFTER_FAILURES) {
+      this.markUnhealthy(endpoint);
+    }
+  }
+
+  private markUnhealthy(endpoint: Endpoint): void {
+    if (endpoint.metrics.healthy) {
+      console.warn(`RPC endpoint ${endpoint.metrics.endpoint} marked unhealthy (${endpoint.metrics.lastError ?? "health check failed"})`);
+    }
+    endpoint.metrics.healthy = false;
+  }
+}
+
+export const rpcPool = new RpcPool();
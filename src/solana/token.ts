@@ -0,0 +1,442 @@
+import {
+  getAssociatedTokenAddress,
+  getOrCreateAssociatedTokenAccount,
+  transferChecked,
+  getAccount,
+  TokenAccountNotFoundError,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  decodeInstruction,
+  isTransferInstruction,
+  isTransferCheckedInstruction,
+} from "@solana/spl-token";
+import {
+  ParsedInstruction,
+  PartiallyDecodedInstruction,
+  PublicKey,
+  Keypair,
+  Transaction,
+  SystemProgram,
+  SystemInstruction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { getConnection } from "./client.js";
+import { fromAtomicUnits } from "../config/constants.js";
+import { isNativeSol, NATIVE_SOL_TOKEN, type PaymentToken } from "../config/tokens.js";
+
+// Associated token account of an owner for a token, under the token's program.
+// Native SOL is held by the wallet itself.
+export async function getTokenAccountAddress(token: PaymentToken, owner: PublicKey): Promise<PublicKey> {
+  if (isNativeSol(token)) {
+    return owner;
+  }
+  return getAssociatedTokenAddress(token.mint, owner, false, token.programId);
+}
+
+// Get a token balance for an address, in whole tokens
+export async function getTokenBalance(address: string, token: PaymentToken): Promise<number> {
+  const conn = getConnection();
+
+  if (isNativeSol(token)) {
+    const lamports = await conn.getBalance(new PublicKey(address), "confirmed");
+    return fromAtomicUnits(BigInt(lamports), token.decimals);
+  }
+
+  try {
+    const ata = await getTokenAccountAddress(token, new PublicKey(address));
+    const account = await getAccount(conn, ata, "confirmed", token.programId);
+    return fromAtomicUnits(account.amount, token.decimals);
+  } catch (error) {
+    if (error instanceof TokenAccountNotFoundError) {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+// Get or create an owner's token account
+export async function ensureTokenAccount(
+  payer: Keypair,
+  owner: PublicKey,
+  token: PaymentToken
+): Promise<PublicKey> {
+  if (isNativeSol(token)) {
+    return owner;
+  }
+  const conn = getConnection();
+  const account = await getOrCreateAssociatedTokenAccount(
+    conn,
+    payer,
+    token.mint,
+    owner,
+    false,
+    "confirmed",
+    undefined,
+    token.programId
+  );
+  return account.address;
+}
+
+// Transfer tokens between wallets
+export async function transferToken(
+  sender: Keypair,
+  recipientAddress: string,
+  amountAtomic: bigint,
+  token: PaymentToken
+): Promise<string> {
+  const conn = getConnection();
+  const recipient = new PublicKey(recipientAddress);
+
+  if (isNativeSol(token)) {
+    await checkRentExemptTransfer(recipient, amountAtomic);
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: sender.publicKey, toPubkey: recipient, lamports: amountAtomic })
+    );
+    return sendAndConfirmTransaction(conn, tx, [sender], { commitment: "confirmed" });
+  }
+
+  const senderAta = await getTokenAccountAddress(token, sender.publicKey);
+  // Ensure recipient has an ATA (create if needed)
+  const recipientAta = await ensureTokenAccount(sender, recipient, token);
+
+  return transferChecked(
+    conn,
+    sender,
+    senderAta,
+    token.mint,
+    recipientAta,
+    sender,
+    amountAtomic,
+    token.decimals,
+    [],
+    undefined,
+    token.programId
+  );
+}
+
+/**
+ * A System Program transfer into an account that doesn't exist yet has to
+ * leave it rent-exempt, or the whole transaction fails. Catch that before
+ * anything is signed so the caller gets a useful error.
+ */
+export async function checkRentExemptTransfer(recipient: PublicKey, lamports: bigint): Promise<void> {
+  const conn = getConnection();
+  if (await conn.getAccountInfo(recipient, "confirmed")) return;
+
+  const minimum = BigInt(await conn.getMinimumBalanceForRentExemption(0));
+  if (lamports < minimum) {
+    throw new Error(
+      `Transfer of ${lamports} lamports to new account ${recipient.toBase58()} is below the rent-exempt minimum of ${minimum}`
+    );
+  }
+}
+
+// A token transfer instruction as it appeared in a transaction
+export interface ObservedTransfer {
+  instruction: string; // "2" for top-level, "2.1" for the second inner instruction of #2
+  type: "transfer" | "transferChecked";
+  source: string;
+  destination: string;
+  authority: string | null;
+  mint: string | null;
+  amountAtomic: string;
+}
+
+export interface TransferVerdict {
+  valid: boolean;
+  signature: string;
+  reason: string | null;
+  // Mismatches for the closest candidate instruction when no transfer matched
+  mismatches: string[];
+  transfer: ObservedTransfer | null;
+}
+
+export interface ExpectedTransfer {
+  token: PaymentToken;    // Mint (and token program) the transfer must move
+  sender: string;         // Wallet that must sign as the source authority
+  recipient: string;      // Wallet whose token account must be the destination
+  amountAtomic: bigint;   // Exact amount
+  reference?: string;     // Reference key that must appear in the transaction's accounts
+}
+
+function rejectTransfer(signature: string, reason: string, mismatches: string[] = []): TransferVerdict {
+  return { valid: false, signature, reason, mismatches, transfer: null };
+}
+
+/**
+ * Verify that a transaction contains an SPL token transfer that moves exactly
+ * the expected amount of the expected mint from the sender into the
+ * recipient's associated token account, under the mint's token program.
+ * Every transfer/transferChecked instruction (including inner instructions)
+ * is checked individually; balances of unrelated accounts are ignored, so an
+ * unrelated transfer bundled into the same transaction cannot satisfy it.
+ * Native SOL is matched the same way against System Program transfers from
+ * the sender's wallet straight into the recipient's wallet.
+ */
+export async function verifyTokenTransfer(
+  signature: string,
+  expected: ExpectedTransfer
+): Promise<TransferVerdict> {
+  const conn = getConnection();
+
+  try {
+    const tx = await conn.getParsedTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!tx || !tx.meta) {
+      return rejectTransfer(signature, "Transaction not found");
+    }
+    if (tx.meta.err) {
+      return rejectTransfer(signature, "Transaction failed on-chain");
+    }
+
+    const { token } = expected;
+    const expectedMint = token.mint.toBase58();
+    const expectedDestination = (
+      await getTokenAccountAddress(token, new PublicKey(expected.recipient))
+    ).toBase58();
+
+    // Plain `transfer` carries no mint; resolve it from the token balances
+    const accountKeys = tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58());
+    if (expected.reference && !accountKeys.includes(expected.reference)) {
+      return rejectTransfer(signature, `Reference ${expected.reference} not found in transaction`);
+    }
+    const mintOf = (account: string): string | null => {
+      const index = accountKeys.indexOf(account);
+      const balance = [...(tx.meta!.postTokenBalances || []), ...(tx.meta!.preTokenBalances || [])]
+        .find((b) => b.accountIndex === index);
+      return balance?.mint ?? null;
+    };
+
+    const instructions: Array<{ id: string; ix: ParsedInstruction | PartiallyDecodedInstruction }> = [];
+    tx.transaction.message.instructions.forEach((ix, i) => {
+      instructions.push({ id: String(i), ix });
+      const inner = tx.meta!.innerInstructions?.find((group) => group.index === i);
+      inner?.instructions.forEach((innerIx, j) => instructions.push({ id: `${i}.${j}`, ix: innerIx }));
+    });
+
+    const transfers: ObservedTransfer[] = [];
+    for (const { id, ix } of instructions) {
+      if (!("parsed" in ix) || !ix.programId.equals(token.programId)) continue;
+      const { type, info } = ix.parsed ?? {};
+
+      if (isNativeSol(token)) {
+        if (type !== "transfer") continue;
+        transfers.push({
+          instruction: id,
+          type,
+          source: info.source,
+          destination: info.destination,
+          authority: info.source,
+          mint: expectedMint,
+          amountAtomic: String(info.lamports),
+        });
+        continue;
+      }
+
+      if (type !== "transfer" && type !== "transferChecked") continue;
+
+      transfers.push({
+        instruction: id,
+        type,
+        source: info.source,
+        destination: info.destination,
+        authority: info.authority ?? info.multisigAuthority ?? null,
+        mint: info.mint ?? mintOf(info.destination),
+        amountAtomic: String(type === "transferChecked" ? info.tokenAmount.amount : info.amount),
+      });
+    }
+
+    if (transfers.length === 0) {
+      return rejectTransfer(
+        signature,
+        isNativeSol(token)
+          ? "No System Program transfer in transaction"
+          : `No ${token.symbol} token program transfer in transaction`
+      );
+    }
+
+    let closest: string[] | null = null;
+    for (const transfer of transfers) {
+      const mismatches: string[] = [];
+      if (transfer.mint !== expectedMint) {
+        mismatches.push(`mint ${transfer.mint ?? "unknown"} is not ${token.symbol} (${expectedMint})`);
+      }
+      if (transfer.destination !== expectedDestination) {
+        mismatches.push(`destination ${transfer.destination} is not the recipient's ${token.symbol} account ${expectedDestination}`);
+      }
+      if (transfer.authority !== expected.sender) {
+        mismatches.push(`authority ${transfer.authority ?? "unknown"} is not the expected sender ${expected.sender}`);
+      }
+      if (BigInt(transfer.amountAtomic) !== expected.amountAtomic) {
+        mismatches.push(`amount ${transfer.amountAtomic} does not equal expected ${expected.amountAtomic}`);
+      }
+
+      if (mismatches.length === 0) {
+        return { valid: true, signature, reason: null, mismatches: [], transfer };
+      }
+      if (!closest || mismatches.length < closest.length) {
+        closest = mismatches;
+      }
+    }
+
+    return rejectTransfer(signature, `No matching transfer: ${closest![0]}`, closest!);
+  } catch (error) {
+    console.error("Error verifying transfer:", error);
+    return rejectTransfer(signature, "Verification error");
+  }
+}
+
+// A token transfer found in a signed transaction that has not been submitted
+export interface PendingTransfer {
+  source: string;
+  destination: string;
+  authority: string;
+  mint: string | null; // Only transferChecked carries the mint; native SOL uses the native mint
+  programId: string;
+  amountAtomic: bigint;
+}
+
+// Decode the top-level SPL Token, Token-2022 and System Program transfers of a
+// transaction before it is sent
+export function decodeTokenTransfers(tx: Transaction): PendingTransfer[] {
+  const transfers: PendingTransfer[] = [];
+
+  for (const ix of tx.instructions) {
+    if (ix.programId.equals(SystemProgram.programId)) {
+      try {
+        if (SystemInstruction.decodeInstructionType(ix) !== "Transfer") continue;
+        const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(ix);
+        transfers.push({
+          source: fromPubkey.toBase58(),
+          destination: toPubkey.toBase58(),
+          authority: fromPubkey.toBase58(),
+          mint: NATIVE_SOL_TOKEN.mint.toBase58(),
+          programId: ix.programId.toBase58(),
+          amountAtomic: BigInt(lamports),
+        });
+      } catch {
+        // Not a system instruction layout we know about
+      }
+      continue;
+    }
+
+    if (!ix.programId.equals(TOKEN_PROGRAM_ID) && !ix.programId.equals(TOKEN_2022_PROGRAM_ID)) continue;
+
+    let decoded;
+    try {
+      decoded = decodeInstruction(ix, ix.programId);
+    } catch {
+      continue; // Not an instruction the token program layouts know about
+    }
+
+    if (isTransferInstruction(decoded)) {
+      transfers.push({
+        source: decoded.keys.source.pubkey.toBase58(),
+        destination: decoded.keys.destination.pubkey.toBase58(),
+        authority: decoded.keys.owner.pubkey.toBase58(),
+        mint: null,
+        programId: ix.programId.toBase58(),
+        amountAtomic: decoded.data.amount,
+      });
+    } else if (isTransferCheckedInstruction(decoded)) {
+      transfers.push({
+        source: decoded.keys.source.pubkey.toBase58(),
+        destination: decoded.keys.destination.pubkey.toBase58(),
+        authority: decoded.keys.owner.pubkey.toBase58(),
+        mint: decoded.keys.mint.pubkey.toBase58(),
+        programId: ix.programId.toBase58(),
+        amountAtomic: decoded.data.amount,
+      });
+    }
+  }
+
+  return transfers;
+}
+
+export interface TransferLeg {
+  recipient: string;
+  amountAtomic: bigint;
+}
+
+// Build an unsigned token transfer transaction paying one or more recipients.
+// Missing recipient ATAs are created (idempotently, paid by the sender), and a
+// reference key, if given, is attached read-only to every transfer instruction.
+// Native SOL legs are plain System Program transfers.
+export async function buildTokenTransferTx(
+  senderPubkey: PublicKey,
+  legs: TransferLeg[],
+  options: { token: PaymentToken; reference?: string }
+): Promise<{ tx: Transaction; lastValidBlockHeight: number }> {
+  const { token } = options;
+  const conn = getConnection();
+  const senderAta = await getTokenAccountAddress(token, senderPubkey);
+  const tx = new Transaction();
+
+  for (const leg of legs) {
+    if (leg.amountAtomic <= 0n) continue;
+
+    const recipient = new PublicKey(leg.recipient);
+
+    if (isNativeSol(token)) {
+      await checkRentExemptTransfer(recipient, leg.amountAtomic);
+      const transferIx = SystemProgram.transfer({
+        fromPubkey: senderPubkey,
+        toPubkey: recipient,
+        lamports: leg.amountAtomic,
+      });
+      if (options.reference) {
+        transferIx.keys.push({ pubkey: new PublicKey(options.reference), isSigner: false, isWritable: false });
+      }
+      tx.add(transferIx);
+      continue;
+    }
+
+    const recipientAta = await getTokenAccountAddress(token, recipient);
+
+    const existing = await conn.getAccountInfo(recipientAta);
+    if (!existing) {
+      tx.add(
+        createAssociatedTokenAccountIdempotentInstruction(
+          senderPubkey,
+          recipientAta,
+          recipient,
+          token.mint,
+          token.programId
+        )
+      );
+    }
+
+    const transferIx = createTransferCheckedInstruction(
+      senderAta,
+      token.mint,
+      recipientAta,
+      senderPubkey,
+      leg.amountAtomic,
+      token.decimals,
+      [],
+      token.programId
+    );
+    if (options.reference) {
+      transferIx.keys.push({ pubkey: new PublicKey(options.reference), isSigner: false, isWritable: false });
+    }
+    tx.add(transferIx);
+  }
+
+  const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash();
+  tx.recentBlockhash = blockhash;
+  tx.feePayer = senderPubkey;
+
+  return { tx, lastValidBlockHeight };
+}
+
+// Serialize an unsigned transaction for a client to sign
+export function serializeUnsignedTx(tx: Transaction): string {
+  return tx
+    .serialize({ requireAllSignatures: false, verifySignatures: false })
+    .toString("base64");
+}
@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getNetworkProfile } from "../src/config/network.js";
+
+describe("network profiles", () => {
+  it("uses the x402 id solana for mainnet-beta", () => {
+    const profile = getNetworkProfile("mainnet-beta");
+    assert.equal(profile.name, "mainnet-beta");
+    assert.equal(profile.x402Network, "solana");
+    assert.equal(profile.explorerTxTemplate, "https://explorer.solana.com/tx/{signature}");
+    assert.equal(profile.airdrop, false);
+  });
+
+  it("accepts mainnet as an alias", () => {
+    assert.equal(getNetworkProfile("mainnet").x402Network, "solana");
+  });
+
+  it("uses the x402 id solana-devnet for devnet", () => {
+    const profile = getNetworkProfile("devnet");
+    assert.equal(profile.x402Network, "solana-devnet");
+    assert.equal(profile.explorerTxTemplate, "https://explorer.solana.com/tx/{signature}?cluster=devnet");
+  });
+
+  it("rejects an unknown cluster", () => {
+    assert.throws(() => getNetworkProfile("solana"), /Unknown SOLANA_NETWORK "solana"/);
+  });
+});
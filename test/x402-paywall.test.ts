@@ -0,0 +1,374 @@
+import { describe, it, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import pg from "pg";
+import bs58 from "bs58";
+import { Connection, Keypair, PublicKey, SendTransactionError, Transaction } from "@solana/web3.js";
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync } from "@solana/spl-token";
+
+// Drives the x402 paywall end to end through a StaticFacilitator. The database
+// is faked: processed_txs keeps real claim semantics for replay protection and
+// every other statement succeeds without rows. Jobs live in `jobs` below.
+
+const platform = Keypair.generate().publicKey;
+process.env.PLATFORM_WALLET = platform.toBase58();
+process.env.SOLANA_NETWORK = "devnet";
+delete process.env.PAYMENT_MINTS;
+delete process.env.X402_FACILITATOR_URL;
+delete process.env.X402_ASYNC_SETTLEMENT;
+
+const processedTxs = new Set<string>();
+async function fakeQuery(text: string, params: any[] = []): Promise<{ rows: any[] }> {
+  if (text.includes("INSERT INTO processed_txs")) {
+    if (processedTxs.has(params[0])) return { rows: [] };
+    processedTxs.add(params[0]);
+    return { rows: [{ tx_sig: params[0] }] };
+  }
+  if (text.includes("DELETE FROM processed_txs")) {
+    processedTxs.delete(params[0]);
+  }
+  return { rows: [] };
+}
+mock.method(pg.Pool.prototype, "query", fakeQuery);
+mock.method(pg.Pool.prototype, "connect", async () => ({ query: fakeQuery, release() {} }));
+
+const { x402Paywall } = await import("../src/server/middleware/x402.js");
+const { paymentService } = await import("../src/services/payment-service.js");
+const { jobService } = await import("../src/services/job-service.js");
+const { ledgerService } = await import("../src/services/ledger-service.js");
+const { LocalFacilitator, StaticFacilitator } = await import("../src/services/facilitator.js");
+const { DEFAULT_PAYMENT_TOKEN } = await import("../src/config/tokens.js");
+const { NETWORK } = await import("../src/config/network.js");
+const { JobStatus, SettlementMode, calculateFees } = await import("../src/config/constants.js");
+type Job = import("../src/models/job.js").Job;
+type Facilitator = import("../src/services/facilitator.js").Facilitator;
+
+const BOUNTY_ATOMIC = 1_000_000n;
+const requester = Keypair.generate();
+const worker = Keypair.generate().publicKey;
+const token = DEFAULT_PAYMENT_TOKEN;
+
+const jobs = new Map<string, Job>();
+
+function addJob(id: string): Job {
+  const job: Job = {
+    id,
+    title: "Summarize a paper",
+    description: "One paragraph",
+    bountyAmount: 1,
+    bountyAtomic: BOUNTY_ATOMIC,
+    bountyMint: token.mint.toBase58(),
+    requesterWallet: requester.publicKey.toBase58(),
+    workerWallet: worker.toBase58(),
+    status: JobStatus.UNDER_REVIEW,
+    tags: [],
+    createdAt: new Date(),
+    claimedAt: new Date(),
+    completedAt: new Date(),
+    paidAt: null,
+    paymentTxSig: null,
+    escrowDepositTx: null,
+    escrowVerifiedAt: null,
+    escrowReleaseTx: null,
+    expiresAt: null,
+    claimDeadline: null,
+    reviewDeadline: null,
+    reviewedAt: null,
+    rejectionReason: null,
+    depositReference: null,
+    settlementMode: SettlementMode.X402,
+    settlingTxSig: null,
+    settlingSince: null,
+  };
+  jobs.set(id, job);
+  return job;
+}
+
+const getJob = mock.method(jobService, "get", async (id: string) => {
+  const job = jobs.get(id);
+  return job ? { ...job } : null;
+});
+mock.method(jobService, "claimPaymentSettlement", async (id: string, txSig: string) => {
+  const job = jobs.get(id);
+  if (!job || job.settlingTxSig || job.status === JobStatus.PAID) return false;
+  job.settlingTxSig = txSig;
+  job.settlingSince = new Date();
+  return true;
+});
+mock.method(jobService, "releasePaymentSettlement", async (id: string, txSig: string) => {
+  const job = jobs.get(id);
+  if (job?.settlingTxSig === txSig) {
+    job.settlingTxSig = null;
+    job.settlingSince = null;
+  }
+});
+mock.method(jobService, "markPaid", async (id: string, txSig: string) => {
+  const job = jobs.get(id)!;
+  Object.assign(job, { status: JobStatus.PAID, paymentTxSig: txSig, paidAt: new Date(), settlingTxSig: null, settlingSince: null });
+  return { ...job };
+});
+mock.method(ledgerService, "recordX402Payment", async () => {});
+
+// A signed payment from the requester: the worker's share and, unless left
+// out, the platform fee, each as its own transferChecked
+function signedPayment(options: { platformLeg?: boolean } = {}): { header: string; signature: string } {
+  const { workerAmount, platformFee } = calculateFees(BOUNTY_ATOMIC);
+  const source = getAssociatedTokenAddressSync(token.mint, requester.publicKey, false, token.programId);
+  const transfer = (recipient: PublicKey, amount: bigint) => createTransferCheckedInstruction(
+    source,
+    token.mint,
+    getAssociatedTokenAddressSync(token.mint, recipient, false, token.programId),
+    requester.publicKey,
+    amount,
+    token.decimals,
+    [],
+    token.programId
+  );
+
+  const tx = new Transaction({
+    feePayer: requester.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  });
+  tx.add(transfer(worker, workerAmount));
+  if (options.platformLeg ?? true) {
+    tx.add(transfer(platform, platformFee));
+  }
+  tx.sign(requester);
+
+  const payload = {
+    x402Version: 1,
+    scheme: "exact",
+    network: NETWORK.x402Network,
+    payload: { transaction: tx.serialize().toString("base64") },
+  };
+  return {
+    header: Buffer.from(JSON.stringify(payload)).toString("base64"),
+    signature: bs58.encode(tx.signature!),
+  };
+}
+
+let server: Server;
+let baseUrl: string;
+
+function fetchResult(jobId: string, paymentHeader?: string): Promise<Response> {
+  return fetch(`${baseUrl}/results/${jobId}`, {
+    headers: paymentHeader ? { "X-PAYMENT": paymentHeader } : {},
+  });
+}
+
+describe("x402 paywall", () => {
+  let facilitator: InstanceType<typeof StaticFacilitator>;
+
+  before(async () => {
+    const app = express();
+    app.get(
+      "/results/:jobId",
+      (req, _res, next) => {
+        req.auth = { wallet: requester.publicKey.toBase58(), method: "session" };
+        next();
+      },
+      x402Paywall(),
+      (req, res) => res.json({ served: true, payment: req.payment })
+    );
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    jobs.clear();
+    processedTxs.clear();
+    facilitator = new StaticFacilitator();
+    paymentService.setFacilitator(facilitator);
+  });
+
+  it("answers 402 with both payment legs when no payment is attached", async () => {
+    addJob("job_unpaid");
+
+    const res = await fetchResult("job_unpaid");
+    assert.equal(res.status, 402);
+
+    const body = await res.json();
+    const { workerAmount, platformFee } = calculateFees(BOUNTY_ATOMIC);
+    assert.equal(body.x402Version, 1);
+    assert.equal(body.accepts[0].payTo, worker.toBase58());
+    assert.equal(body.accepts[0].asset, token.mint.toBase58());
+    assert.equal(body.accepts[0].extra.breakdown.worker.amount, workerAmount.toString());
+    assert.equal(body.accepts[0].extra.breakdown.platform.address, platform.toBase58());
+    assert.equal(body.accepts[0].extra.breakdown.platform.amount, platformFee.toString());
+  });
+
+  it("answers 500 when the job cannot be loaded", async () => {
+    getJob.mock.mockImplementationOnce(async () => {
+      throw new Error("connection terminated");
+    });
+
+    const res = await fetchResult("job_any");
+    assert.equal(res.status, 500);
+    assert.equal((await res.json()).error, "Internal server error");
+  });
+
+  it("serves the result and marks the job paid for a complete payment", async () => {
+    addJob("job_paid");
+    const { header, signature } = signedPayment();
+
+    const res = await fetchResult("job_paid", header);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), {
+      served: true,
+      payment: { txSig: signature, verified: true, settlement: "confirmed" },
+    });
+    assert.ok(res.headers.get("x-payment-response"));
+
+    assert.deepEqual(facilitator.calls.map((call) => call.op), ["verify", "settle"]);
+    assert.equal(jobs.get("job_paid")!.status, JobStatus.PAID);
+    assert.equal(jobs.get("job_paid")!.paymentTxSig, signature);
+  });
+
+  it("rejects a payment missing the platform fee leg before the facilitator sees it", async () => {
+    addJob("job_no_fee");
+    const { header, signature } = signedPayment({ platformLeg: false });
+
+    const res = await fetchResult("job_no_fee", header);
+    assert.equal(res.status, 402);
+    assert.match((await res.json()).error, /Missing platform fee transfer/);
+
+    assert.equal(facilitator.calls.length, 0);
+    assert.equal(jobs.get("job_no_fee")!.status, JobStatus.UNDER_REVIEW);
+    assert.equal(jobs.get("job_no_fee")!.settlingTxSig, null);
+    // The rejected signature is not burned
+    assert.equal(processedTxs.has(signature), false);
+  });
+
+  it("rejects a replayed signature", async () => {
+    addJob("job_first");
+    addJob("job_second");
+    const { header } = signedPayment();
+
+    assert.equal((await fetchResult("job_first", header)).status, 200);
+
+    const replay = await fetchResult("job_second", header);
+    assert.equal(replay.status, 400);
+    assert.equal((await replay.json()).error, "Transaction already processed");
+    assert.equal(jobs.get("job_second")!.status, JobStatus.UNDER_REVIEW);
+    assert.equal(facilitator.calls.filter((call) => call.op === "settle").length, 1);
+  });
+
+  it("answers 409 while another payment holds the job", async () => {
+    const job = addJob("job_settling");
+    job.settlingTxSig = "other_payment";
+    const { header } = signedPayment();
+
+    const res = await fetchResult("job_settling", header);
+    assert.equal(res.status, 409);
+    assert.equal(facilitator.calls.length, 0);
+  });
+
+  it("frees the job and signature when the payment was never submitted", async () => {
+    addJob("job_unsubmitted");
+    const { header, signature } = signedPayment();
+    const unsubmitted: Facilitator = {
+      name: "unsubmitted",
+      verify: (payload, requirements) => facilitator.verify(payload, requirements),
+      settle: async (_payload, requirements) => ({
+        success: false,
+        transaction: "",
+        network: requirements.network,
+        payer: null,
+        errorReason: "Transaction submission failed",
+      }),
+    };
+    paymentService.setFacilitator(unsubmitted);
+
+    const res = await fetchResult("job_unsubmitted", header);
+    assert.equal(res.status, 402);
+    assert.equal(jobs.get("job_unsubmitted")!.settlingTxSig, null);
+    assert.equal(processedTxs.has(signature), false);
+  });
+
+  it("frees the job and signature when preflight rejects the payment", async () => {
+    addJob("job_preflight");
+    const { header, signature } = signedPayment();
+    const local = new LocalFacilitator();
+    paymentService.setFacilitator({
+      name: "local",
+      verify: (payload, requirements) => facilitator.verify(payload, requirements),
+      settle: (payload, requirements) => local.settle(payload, requirements),
+    });
+    const send = mock.method(Connection.prototype, "sendRawTransaction", async () => {
+      throw new SendTransactionError({
+        action: "simulate",
+        signature: "",
+        transactionMessage: "Transaction simulation failed: Attempt to debit an account but found no record of a prior credit.",
+      });
+    });
+
+    try {
+      const res = await fetchResult("job_preflight", header);
+      assert.equal(res.status, 402);
+      assert.equal(jobs.get("job_preflight")!.settlingTxSig, null);
+      assert.equal(processedTxs.has(signature), false);
+    } finally {
+      send.mock.restore();
+    }
+  });
+
+  it("keeps the claim when submission fails without an answer from the node", async () => {
+    addJob("job_timeout");
+    const { header, signature } = signedPayment();
+    const local = new LocalFacilitator();
+    paymentService.setFacilitator({
+      name: "local",
+      verify: (payload, requirements) => facilitator.verify(payload, requirements),
+      settle: (payload, requirements) => local.settle(payload, requirements),
+    });
+    const send = mock.method(Connection.prototype, "sendRawTransaction", async () => {
+      throw new TypeError("fetch failed");
+    });
+
+    try {
+      const res = await fetchResult("job_timeout", header);
+      assert.equal(res.status, 402);
+      assert.equal(jobs.get("job_timeout")!.status, JobStatus.UNDER_REVIEW);
+      assert.equal(jobs.get("job_timeout")!.settlingTxSig, signature);
+      assert.equal(processedTxs.has(signature), true);
+    } finally {
+      send.mock.restore();
+    }
+  });
+
+  it("keeps the claim when a submitted payment is not confirmed", async () => {
+    addJob("job_unconfirmed");
+    const { header, signature } = signedPayment();
+    paymentService.setFacilitator(new StaticFacilitator({ valid: true, settled: false, reason: "Transaction not confirmed" }));
+
+    const res = await fetchResult("job_unconfirmed", header);
+    assert.equal(res.status, 402);
+    assert.equal(jobs.get("job_unconfirmed")!.status, JobStatus.UNDER_REVIEW);
+    assert.equal(jobs.get("job_unconfirmed")!.settlingTxSig, signature);
+    assert.equal(processedTxs.has(signature), true);
+  });
+
+  it("keeps the claim when settlement ends without an outcome", async () => {
+    addJob("job_unknown");
+    const { header, signature } = signedPayment();
+    paymentService.setFacilitator({
+      name: "throws",
+      verify: (payload, requirements) => facilitator.verify(payload, requirements),
+      settle: async () => {
+        throw new Error("Facilitator /settle failed with HTTP 504");
+      },
+    });
+
+    const res = await fetchResult("job_unknown", header);
+    assert.equal(res.status, 500);
+    assert.equal(jobs.get("job_unknown")!.settlingTxSig, signature);
+    assert.equal(processedTxs.has(signature), true);
+  });
+});